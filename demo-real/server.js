@@ -171,87 +171,61 @@ async function handleStreamingQuery(req, res, { prompt, allowedTools, permission
         console.log('📋 查询选项:', JSON.stringify(options, null, 2));
         
         // 导入Claude Code SDK
-        const { query } = await import('../dist/index.js');
+        const { claude } = await import('../dist/index.js');
         
         console.log('🚀 开始使用Claude Code SDK进行查询...');
         
-        // 收集响应消息
-        let responseText = '';
-        let messageCount = 0;
+        // 启用部分消息，CLI会在生成过程中逐段返回文本增量
+        const builder = claude().withPartialMessages();
+        if (options.allowedTools) builder.allowTools(...options.allowedTools);
+        if (options.permissionMode) builder.withPermissions(options.permissionMode);
+        if (options.cwd) builder.inDirectory(options.cwd);
         
-        // 调用Claude Code SDK
-        for await (const message of query(prompt, options)) {
-            messageCount++;
-            console.log('📝 收到消息:', message.type);
-            
-            // 处理不同类型的消息
-            if (message.type === 'assistant') {
-                // 助手消息，可能包含文本内容
-                if (message.content && Array.isArray(message.content)) {
-                    const textContent = message.content.find(item => item.type === 'text');
-                    if (textContent && textContent.text) {
-                        const text = textContent.text.trim();
-                        // 过滤掉 "(no content)" 和空内容
-                        if (text && text !== '(no content)') {
-                            responseText += text + '\n';
-                        }
-                    }
-                }
-            } else if (message.type === 'result') {
-                // 最终结果
-                if (message.content) {
-                    responseText += message.content;
-                }
-            }
-        }
-        
-        console.log('✅ Claude Code SDK调用完成');
-        
-        // 清理响应文本
-        responseText = responseText.trim();
-        if (!responseText) {
-            responseText = '抱歉，没有收到有效的响应内容。';
-        }
+        const parser = builder.query(prompt);
         
-        console.log('📤 开始发送流式响应，总字符数:', responseText.length);
+        const startTime = Date.now();
+        let firstTokenTime = null;
+        let totalLength = 0;
         
-        // 逐字符发送响应
-        for (let i = 0; i < responseText.length; i++) {
-            const char = responseText[i];
+        // 收到文本增量后立即转发，不再人为延迟
+        for await (const text of parser.textStream()) {
+            if (!text) continue;
             
-            // 调试：检查每个字符
-            if (char === '\n') {
-                console.log(`🔍 发送换行符，位置: ${i + 1}`);
+            if (firstTokenTime === null) {
+                firstTokenTime = Date.now();
+                console.log('⚡ 首个token耗时:', firstTokenTime - startTime, 'ms');
             }
+            totalLength += text.length;
             
-            const charData = {
+            const chunkData = {
                 type: 'content',
-                content: char,
-                position: i + 1,
-                totalLength: responseText.length,
+                content: text,
+                position: totalLength,
                 timestamp: new Date().toISOString()
             };
-            
-            // 调试：检查JSON序列化前后的内容
-            const jsonString = JSON.stringify(charData);
-            if (char === '\n') {
-                console.log('🔍 换行符JSON序列化结果:', jsonString);
-            }
-            
-            const sseMessage = `data: ${jsonString}\n\n`;
-            res.write(sseMessage);
-            
-            // 添加延迟模拟真实流式效果
-            await new Promise(resolve => setTimeout(resolve, 50));
+            res.write(`data: ${JSON.stringify(chunkData)}\n\n`);
+        }
+        
+        const messages = await parser.asArray();
+        const messageCount = messages.length;
+        
+        console.log('✅ Claude Code SDK调用完成');
+        
+        if (totalLength === 0) {
+            const fallback = '抱歉，没有收到有效的响应内容。';
+            totalLength = fallback.length;
+            res.write(`data: ${JSON.stringify({ type: 'content', content: fallback, position: totalLength, timestamp: new Date().toISOString() })}\n\n`);
         }
         
-        console.log('📝 流式响应完成，总字符数:', responseText.length);
+        console.log('📝 流式响应完成，总字符数:', totalLength);
         
         // 发送完成事件
         const completeData = {
             type: 'complete',
-            totalLength: responseText.length,
+            totalLength: totalLength,
             messageCount: messageCount,
+            timeToFirstToken: firstTokenTime === null ? null : firstTokenTime - startTime,
+            duration: Date.now() - startTime,
             timestamp: new Date().toISOString()
         };
         
@@ -293,25 +267,6 @@ async function handleStreamingQuery(req, res, { prompt, allowedTools, permission
     }
 }
 
-// 逐字符发送文本的辅助函数
-async function sendTextStream(res, text) {
-    for (let i = 0; i < text.length; i++) {
-        const char = text[i];
-        const chunk = {
-            type: 'content',
-            content: char,
-            position: i + 1,
-            totalLength: text.length,
-            timestamp: new Date().toISOString()
-        };
-        
-        res.write(`data: ${JSON.stringify(chunk)}\n\n`);
-        
-        // 添加延迟模拟真实流式效果
-        await new Promise(resolve => setTimeout(resolve, 80));
-    }
-}
-
 // 错误处理中间件
 app.use((error, req, res, next) => {
     console.error('❌ 服务器错误:', error);
@@ -204,6 +204,29 @@ async function resumeSessionExample(existingSessionId) {
   console.log('Claude remembers:', response.substring(0, 200) + '...');
 }
 
+// Example 6: Conversation object (session id tracked automatically)
+async function conversationExample() {
+  console.log('\n\n=== Conversation Example ===\n');
+  
+  const chat = claude()
+    .withModel('sonnet')
+    .skipPermissions()
+    .conversation();
+  
+  await chat.send('Remember this number: 42').asText();
+  console.log('Response:', await chat.send('Multiply it by 2').asText());
+  
+  // Forget the last turn and ask something else instead
+  await chat.undo();
+  console.log('After undo:', await chat.send('Add 8 to it').asText());
+  
+  // Explore an alternative from after the first turn without touching `chat`
+  const alternative = await chat.branch(1);
+  console.log('Branch:', await alternative.send('Divide it by 2').asText());
+  
+  console.log('Turns:', chat.history.length, 'Total cost:', chat.usage.totalCost);
+}
+
 // Run all examples
 async function main() {
   try {
@@ -224,6 +247,9 @@ async function main() {
       await resumeSessionExample(sessionId);
     }
     
+    // Conversation object with undo and branch
+    await conversationExample();
+    
     console.log('\n✅ All session examples completed successfully!');
     
   } catch (error) {
@@ -1,14 +1,19 @@
 import { SubprocessCLITransport } from './transport/subprocess-cli.js';
-import type { ClaudeCodeOptions, Message, CLIOutput, AssistantMessage, CLIAssistantOutput, CLIErrorOutput } from '../types.js';
-import { detectErrorType, createTypedError } from '../errors.js';
+import type { ClaudeCodeOptions, Message, CLIOutput, AssistantMessage, CLIAssistantOutput, CLIErrorOutput, CLIResultOutput, CLIStreamEventOutput, CLISystemOutput, CLIUserOutput, ResultMessage, StreamEventMessage, SystemInitMessage, SystemMessage, UserMessage, Transport, Prompt } from '../types.js';
+import { detectErrorType, createTypedError, TimeoutError, AbortError, BudgetExceededError } from '../errors.js';
 import { loadSafeEnvironmentOptions } from '../environment.js';
 import { applyEnvironmentOptions } from './options-merger.js';
+import { RecordingTransport } from '../transport/cassette.js';
+import { UsageTracker } from '../usage/budget.js';
+import { calculateCost, getModelPricing } from '../usage/pricing.js';
+import { estimateTokens } from '../streaming/tokenizer.js';
+import { createQueryContext, observeToolResults } from '../permissions/prompt-bridge.js';
 
 export class InternalClient {
   private options: ClaudeCodeOptions;
-  private prompt: string;
+  private prompt: Prompt;
 
-  constructor(prompt: string, options: ClaudeCodeOptions = {}) {
+  constructor(prompt: Prompt, options: ClaudeCodeOptions = {}) {
     this.prompt = prompt;
     
     // Load safe environment variables and merge with user options
@@ -17,23 +22,158 @@ export class InternalClient {
   }
 
   async *processQuery(): AsyncGenerator<Message> {
-    const transport = new SubprocessCLITransport(this.prompt, this.options);
+    if (this.options.budgetPreflight) {
+      this.checkPreflightBudget();
+    }
+
+    const { scheduler, priority, schedulerKey, cwd, signal } = this.options;
+    const release = scheduler
+      ? await scheduler.acquire({ priority, key: schedulerKey ?? cwd ?? 'default', signal })
+      : undefined;
+
+    try {
+      yield* this.runQuery();
+    } finally {
+      release?.();
+    }
+  }
+
+  private async *runQuery(): AsyncGenerator<Message> {
+    const { maxBudgetUsd, maxOutputTokens, signal } = this.options;
+    const budgeted = maxBudgetUsd !== undefined || maxOutputTokens !== undefined;
+    const tracker = budgeted ? new UsageTracker(this.options.model) : undefined;
+
+    // Crossing the budget cancels the CLI the same way the caller's signal does
+    const budgetController = budgeted ? new AbortController() : undefined;
+    const forwardAbort = () => budgetController?.abort(signal?.reason);
+    if (budgetController && signal) {
+      if (signal.aborted) forwardAbort();
+      else signal.addEventListener('abort', forwardAbort, { once: true });
+    }
+
+    const transport = this.createTransport(
+      budgetController ? { ...this.options, signal: budgetController.signal } : this.options
+    );
+
+    const { permissionMiddleware } = this.options;
+    const reportToolResult = permissionMiddleware
+      ? observeToolResults(permissionMiddleware, createQueryContext(this.prompt, this.options), (error) => {
+          console.warn('[Claude SDK] permissionMiddleware.afterToolExecution failed:', error);
+        })
+      : undefined;
+
+    const received: Message[] = [];
+    let budgetError: BudgetExceededError | undefined;
 
     try {
       await transport.connect();
 
       for await (const output of transport.receiveMessages()) {
-        const message = this.parseMessage(output);
-        if (message) {
-          yield message;
+        const message = InternalClient.parseMessage(output);
+        // Discard what arrives while the CLI is being stopped
+        if (!message || budgetError) continue;
+
+        received.push(message);
+        reportToolResult?.(message);
+        if (tracker) {
+          tracker.observe(message);
+          // Once the result is in the query has finished; its final figures
+          // may be over a ceiling, but there is nothing left to stop
+          const exceeded = message.type !== 'result' && tracker.exceeded({ maxBudgetUsd, maxOutputTokens });
+          if (exceeded) {
+            budgetError = this.createBudgetError(exceeded.limit, exceeded.ceiling, tracker, received);
+            budgetController?.abort(budgetError);
+            continue;
+          }
         }
+        yield message;
+      }
+
+      if (budgetError) throw budgetError;
+    } catch (error) {
+      // Our own cancellation surfaces from the transport as an AbortError
+      if (budgetError) throw budgetError;
+      // Give callers what arrived before the deadline or cancellation
+      if (error instanceof TimeoutError) {
+        throw new TimeoutError(error.message, error.timeout, error.timeoutType, received);
       }
+      if (error instanceof AbortError) {
+        const sessionId = received.find(message => message.session_id)?.session_id;
+        throw new AbortError(error.message, received, sessionId, error.reason);
+      }
+      throw error;
     } finally {
+      signal?.removeEventListener('abort', forwardAbort);
       await transport.disconnect();
     }
   }
 
-  private parseMessage(output: CLIOutput): Message | null {
+  private createBudgetError(
+    limit: BudgetExceededError['limit'],
+    ceiling: number,
+    tracker: UsageTracker,
+    received: Message[]
+  ): BudgetExceededError {
+    const { usage } = tracker;
+    const detail = limit === 'cost'
+      ? `cost $${usage.totalCost.toFixed(4)} exceeded the $${ceiling} budget`
+      : `${usage.outputTokens} output tokens exceeded the limit of ${ceiling}`;
+    const sessionId = received.find(message => message.session_id)?.session_id;
+    return new BudgetExceededError(`Query cancelled: ${detail}`, limit, ceiling, usage, [...received], sessionId);
+  }
+
+  /**
+   * Refuse to spawn the CLI when the prompt alone is estimated to cost
+   * more than maxBudgetUsd
+   */
+  private checkPreflightBudget(): void {
+    const { maxBudgetUsd, model, systemPrompt, context } = this.options;
+    if (maxBudgetUsd === undefined) return;
+
+    const inputTokens = estimateTokens(this.prompt, { model, systemPrompt, context });
+    const usage = {
+      inputTokens,
+      outputTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
+      totalTokens: inputTokens,
+      totalCost: 0
+    };
+    usage.totalCost = calculateCost(usage, getModelPricing(model));
+
+    if (usage.totalCost > maxBudgetUsd) {
+      throw new BudgetExceededError(
+        `Prompt is estimated at ${inputTokens} tokens ($${usage.totalCost.toFixed(4)}), over the $${maxBudgetUsd} budget`,
+        'cost',
+        maxBudgetUsd,
+        usage
+      );
+    }
+  }
+
+  private createTransport(options: ClaudeCodeOptions): Transport {
+    const transport = this.createBaseTransport(options);
+    if (options.recordTo) {
+      return new RecordingTransport(transport, options.recordTo);
+    }
+    return transport;
+  }
+
+  private createBaseTransport(options: ClaudeCodeOptions): Transport {
+    const custom = options.transport;
+    if (typeof custom === 'function') {
+      return custom(this.prompt, options);
+    }
+    if (custom) {
+      return custom;
+    }
+    return new SubprocessCLITransport(this.prompt, options);
+  }
+
+  /**
+   * Convert raw CLI output into an SDK message (null for skipped output)
+   */
+  static parseMessage(output: CLIOutput): Message | null {
     // Handle CLIOutput types based on actual CLI output
     switch (output.type) {
       case 'assistant': {
@@ -44,7 +184,9 @@ export class InternalClient {
           return {
             type: 'assistant',
             content: assistantMsg.message.content,
-            session_id: assistantMsg.session_id
+            session_id: assistantMsg.session_id,
+            message_id: assistantMsg.message.id,
+            usage: assistantMsg.message.usage
           } as AssistantMessage;
         }
         return {
@@ -54,23 +196,70 @@ export class InternalClient {
         } as AssistantMessage;
       }
         
-      case 'system':
-        // System messages (like init) - skip these
-        return null;
+      case 'user': {
+        // User messages carry the tool results the CLI feeds back to the model
+        const userMsg = output as CLIUserOutput;
+        return {
+          type: 'user',
+          content: userMsg.message?.content ?? '',
+          session_id: userMsg.session_id,
+          parent_tool_use_id: userMsg.parent_tool_use_id
+        } as UserMessage;
+      }
+
+      case 'system': {
+        const { type: _type, subtype, session_id, ...data } = output as CLISystemOutput;
+        if (subtype === 'init') {
+          return {
+            type: 'system',
+            subtype: 'init',
+            session_id,
+            cwd: data.cwd,
+            model: data.model,
+            tools: data.tools ?? [],
+            mcp_servers: data.mcp_servers ?? [],
+            permissionMode: data.permissionMode,
+            apiKeySource: data.apiKeySource,
+            slash_commands: data.slash_commands,
+            data
+          } as SystemInitMessage;
+        }
+        return {
+          type: 'system',
+          subtype,
+          data,
+          session_id
+        } as SystemMessage;
+      }
         
+      case 'stream_event': {
+        const streamMsg = output as CLIStreamEventOutput;
+        return {
+          type: 'stream_event',
+          event: streamMsg.event,
+          session_id: streamMsg.session_id,
+          parent_tool_use_id: streamMsg.parent_tool_use_id
+        } as StreamEventMessage;
+      }
+
       case 'result': {
-        // Result message with usage stats - return it
-        const resultMsg = output as any; // Type assertion for now
+        const resultMsg = output as CLIResultOutput;
+        const text = resultMsg.result ?? resultMsg.content ?? '';
         return {
           type: 'result',
           subtype: resultMsg.subtype,
-          content: resultMsg.content || '',
+          content: text,
+          result: text,
+          is_error: resultMsg.is_error ?? resultMsg.subtype?.startsWith('error') ?? false,
+          num_turns: resultMsg.num_turns,
+          duration_ms: resultMsg.duration_ms,
+          duration_api_ms: resultMsg.duration_api_ms,
           session_id: resultMsg.session_id,
           usage: resultMsg.usage,
           cost: {
-            total_cost: resultMsg.cost?.total_cost_usd
+            total_cost: resultMsg.total_cost_usd ?? resultMsg.cost?.total_cost_usd
           }
-        } as Message;
+        } as ResultMessage;
       }
         
       case 'error': {
@@ -0,0 +1,218 @@
+/**
+ * Resolve and validate multimodal prompt content before it is sent to the CLI
+ */
+
+import { promises as fs } from 'node:fs';
+import { basename, extname } from 'node:path';
+import { ValidationError } from '../errors.js';
+import type {
+  ContentBlock,
+  DocumentBlock,
+  DocumentMediaType,
+  ImageMediaType,
+  PromptBlock,
+  PromptDocument,
+  PromptImage
+} from '../types.js';
+
+// API limits on decoded size
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_DOCUMENT_BYTES = 32 * 1024 * 1024;
+
+const IMAGE_MEDIA_TYPES: ImageMediaType[] = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+const DOCUMENT_MEDIA_TYPES: DocumentMediaType[] = ['application/pdf', 'text/plain'];
+
+const EXTENSION_MEDIA_TYPES: Record<string, ImageMediaType | DocumentMediaType> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.md': 'text/plain'
+};
+
+/**
+ * Read files, detect media types and enforce size limits, producing the
+ * content blocks the CLI accepts as stream-json user input
+ */
+export async function resolvePromptContent(blocks: PromptBlock[]): Promise<ContentBlock[]> {
+  if (blocks.length === 0) {
+    throw new ValidationError('Prompt must contain at least one content block', 'prompt', blocks);
+  }
+
+  const content: ContentBlock[] = [];
+  for (const [index, block] of blocks.entries()) {
+    const field = `prompt[${index}]`;
+
+    switch (block.type) {
+      case 'text':
+        if (typeof block.text !== 'string') {
+          throw new ValidationError(`${field}: text block requires a text string`, field, block);
+        }
+        content.push(block);
+        break;
+
+      case 'image':
+        content.push('source' in block ? validateEncodedImage(block, field) : await resolveImage(block, field));
+        break;
+
+      case 'document':
+        content.push('source' in block ? validateEncodedDocument(block, field) : await resolveDocument(block, field));
+        break;
+
+      default:
+        throw new ValidationError(
+          `${field}: unsupported prompt block type '${(block as { type: string }).type}'`,
+          field,
+          block
+        );
+    }
+  }
+
+  return content;
+}
+
+async function resolveImage(block: PromptImage, field: string): Promise<ContentBlock> {
+  const { bytes, mediaType } = await loadBytes(block, field);
+
+  if (!isImageMediaType(mediaType)) {
+    throw unknownMediaType(field, 'image', mediaType, IMAGE_MEDIA_TYPES);
+  }
+  checkSize(bytes.length, MAX_IMAGE_BYTES, field);
+
+  return {
+    type: 'image',
+    source: { type: 'base64', media_type: mediaType, data: bytes.toString('base64') }
+  };
+}
+
+async function resolveDocument(block: PromptDocument, field: string): Promise<ContentBlock> {
+  const { bytes, mediaType } = await loadBytes(block, field);
+
+  if (!isDocumentMediaType(mediaType)) {
+    throw unknownMediaType(field, 'document', mediaType, DOCUMENT_MEDIA_TYPES);
+  }
+  checkSize(bytes.length, MAX_DOCUMENT_BYTES, field);
+
+  const title = block.title ?? (block.path ? basename(block.path) : undefined);
+  return {
+    type: 'document',
+    source: mediaType === 'application/pdf'
+      ? { type: 'base64', media_type: mediaType, data: bytes.toString('base64') }
+      : { type: 'text', media_type: mediaType, data: bytes.toString('utf-8') },
+    ...(title ? { title } : {})
+  };
+}
+
+function validateEncodedImage(block: Extract<PromptBlock, { source: unknown; type: 'image' }>, field: string): ContentBlock {
+  if (!isImageMediaType(block.source.media_type)) {
+    throw unknownMediaType(field, 'image', block.source.media_type, IMAGE_MEDIA_TYPES);
+  }
+  checkSize(decodeBase64(block.source.data, field).length, MAX_IMAGE_BYTES, field);
+  return block;
+}
+
+function validateEncodedDocument(block: DocumentBlock, field: string): ContentBlock {
+  const { source } = block;
+  if (!isDocumentMediaType(source.media_type)) {
+    throw unknownMediaType(field, 'document', source.media_type, DOCUMENT_MEDIA_TYPES);
+  }
+  if (typeof source.data !== 'string') {
+    throw new ValidationError(`${field}: document source data must be a string`, field, block);
+  }
+
+  // PDFs travel as base64, plain text as is
+  const { type, media_type: mediaType, data } = source as { type: string; media_type: DocumentMediaType; data: string };
+  const expected = mediaType === 'application/pdf' ? 'base64' : 'text';
+  if (type !== expected) {
+    throw new ValidationError(`${field}: ${mediaType} documents need a ${expected} source`, field, type);
+  }
+  const size = expected === 'base64' ? decodeBase64(data, field).length : Buffer.byteLength(data, 'utf-8');
+  checkSize(size, MAX_DOCUMENT_BYTES, field);
+  return block;
+}
+
+async function loadBytes(
+  block: PromptImage | PromptDocument,
+  field: string
+): Promise<{ bytes: Buffer; mediaType: string | undefined }> {
+  if (block.path) {
+    let bytes: Buffer;
+    try {
+      bytes = await fs.readFile(block.path);
+    } catch (error) {
+      throw new ValidationError(`${field}: cannot read ${block.path} (${(error as Error).message})`, field, block.path);
+    }
+    return {
+      bytes,
+      mediaType: block.mediaType ?? EXTENSION_MEDIA_TYPES[extname(block.path).toLowerCase()]
+    };
+  }
+
+  if (Buffer.isBuffer(block.data)) {
+    return { bytes: block.data, mediaType: block.mediaType ?? sniffMediaType(block.data) };
+  }
+
+  if (typeof block.data === 'string') {
+    if (!block.mediaType) {
+      throw new ValidationError(`${field}: mediaType is required for string data`, field, block);
+    }
+    return { bytes: decodeStringData(block.data, block.mediaType, field), mediaType: block.mediaType };
+  }
+
+  throw new ValidationError(`${field}: ${block.type} block requires a path or data`, field, block);
+}
+
+/**
+ * Bytes of string attachment data: text/plain documents are taken as
+ * UTF-8 text, everything else must be base64
+ */
+export function decodeStringData(data: string, mediaType: string | undefined, field: string): Buffer {
+  return mediaType === 'text/plain' ? Buffer.from(data, 'utf-8') : decodeBase64(data, field);
+}
+
+// Buffer.from() silently skips invalid characters, so check first
+function decodeBase64(data: string, field: string): Buffer {
+  const compact = data.replace(/\s+/g, '');
+  if (compact.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(compact)) {
+    throw new ValidationError(`${field}: data is not valid base64`, field, `${data.slice(0, 32)}...`);
+  }
+  return Buffer.from(compact, 'base64');
+}
+
+function unknownMediaType(field: string, kind: string, mediaType: string | undefined, expected: string[]): ValidationError {
+  const detail = mediaType
+    ? `unsupported ${kind} type '${mediaType}'`
+    : `could not detect the ${kind} type; set mediaType`;
+  return new ValidationError(`${field}: ${detail} (expected ${expected.join(', ')})`, field, mediaType);
+}
+
+// Detect common formats from their magic bytes
+function sniffMediaType(bytes: Buffer): string | undefined {
+  if (bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (bytes.subarray(0, 4).toString('ascii') === 'GIF8') return 'image/gif';
+  if (bytes.subarray(0, 4).toString('ascii') === 'RIFF' && bytes.subarray(8, 12).toString('ascii') === 'WEBP') return 'image/webp';
+  if (bytes.subarray(0, 5).toString('ascii') === '%PDF-') return 'application/pdf';
+  return undefined;
+}
+
+function checkSize(size: number, limit: number, field: string): void {
+  if (size > limit) {
+    throw new ValidationError(
+      `${field}: ${size} bytes exceeds the ${Math.round(limit / 1024 / 1024)} MB limit`,
+      field,
+      size
+    );
+  }
+}
+
+function isImageMediaType(mediaType: string | undefined): mediaType is ImageMediaType {
+  return IMAGE_MEDIA_TYPES.includes(mediaType as ImageMediaType);
+}
+
+function isDocumentMediaType(mediaType: string | undefined): mediaType is DocumentMediaType {
+  return DOCUMENT_MEDIA_TYPES.includes(mediaType as DocumentMediaType);
+}
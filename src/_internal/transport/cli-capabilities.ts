@@ -0,0 +1,195 @@
+/**
+ * Claude Code CLI discovery, version detection and capability negotiation
+ */
+
+import { execa } from 'execa';
+import which from 'which';
+import { platform, homedir } from 'node:os';
+import { join } from 'node:path';
+import { access, constants } from 'node:fs/promises';
+import { CLINotFoundError } from '../../errors.js';
+
+/**
+ * CLI flags whose availability depends on the installed CLI version
+ */
+export type CLIFlag =
+  | '--input-format'
+  | '--permission-mode'
+  | '--add-dir'
+  | '--include-partial-messages'
+  | '--permission-prompt-tool';
+
+/**
+ * Minimum CLI version that accepts each flag
+ */
+const FLAG_MIN_VERSIONS: Record<CLIFlag, string> = {
+  '--input-format': '1.0.0',
+  '--permission-mode': '1.0.0',
+  '--add-dir': '1.0.18',
+  '--include-partial-messages': '1.0.86',
+  '--permission-prompt-tool': '1.0.0'
+};
+
+/**
+ * Capabilities of a specific CLI installation
+ */
+export interface CLICapabilities {
+  /** Detected version, or null if it could not be determined */
+  version: string | null;
+  /** Whether the CLI accepts the given flag */
+  supports(flag: CLIFlag): boolean;
+}
+
+// Discovery results are cached for the lifetime of the process
+let cliPathPromise: Promise<string> | undefined;
+const versionCache = new Map<string, Promise<string | null>>();
+
+/**
+ * Locate the Claude Code CLI. The search runs once per process; an explicit
+ * path skips it entirely.
+ */
+export async function findCLI(explicitPath?: string): Promise<string> {
+  if (explicitPath) {
+    return explicitPath;
+  }
+
+  if (!cliPathPromise) {
+    cliPathPromise = searchCLI().catch((error) => {
+      // Don't cache failures so a later install is picked up
+      cliPathPromise = undefined;
+      throw error;
+    });
+  }
+  return cliPathPromise;
+}
+
+/**
+ * Detect the CLI version from `--version` output (cached per path)
+ */
+export function detectCLIVersion(cliPath: string): Promise<string | null> {
+  let version = versionCache.get(cliPath);
+  if (!version) {
+    version = execa(cliPath, ['--version'])
+      .then(({ stdout }) => stdout.match(/(\d+\.\d+\.\d+)/)?.[1] ?? null)
+      .catch(() => null);
+    versionCache.set(cliPath, version);
+  }
+  return version;
+}
+
+/**
+ * Resolve the capabilities of the CLI at the given path
+ */
+export async function getCLICapabilities(cliPath: string): Promise<CLICapabilities> {
+  const version = await detectCLIVersion(cliPath);
+  return {
+    version,
+    // Unknown versions are assumed to be current
+    supports: (flag) => version === null || compareVersions(version, FLAG_MIN_VERSIONS[flag]) >= 0
+  };
+}
+
+/**
+ * Forget cached CLI path and versions (e.g. after installing or upgrading the CLI)
+ */
+export function clearCLICache(): void {
+  cliPathPromise = undefined;
+  versionCache.clear();
+}
+
+/**
+ * Compare two dotted version strings
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(part => parseInt(part, 10) || 0);
+  const partsB = b.split('.').map(part => parseInt(part, 10) || 0);
+  const length = Math.max(partsA.length, partsB.length);
+
+  for (let i = 0; i < length; i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+async function searchCLI(): Promise<string> {
+  // First check for local Claude installation (newer version with --output-format support)
+  const localPaths = [
+    join(homedir(), '.claude', 'local', 'claude'),
+    join(homedir(), '.claude', 'bin', 'claude')
+  ];
+  
+  for (const path of localPaths) {
+    try {
+      await access(path, constants.X_OK);
+      return path;
+    } catch {
+      // Continue checking
+    }
+  }
+  
+  // Then try to find in PATH - try both 'claude' and 'claude-code' for compatibility
+  try {
+    return await which('claude');
+  } catch {
+    // Try the alternative name
+    try {
+      return await which('claude-code');
+    } catch {
+      // Not found in PATH, continue to check other locations
+    }
+  }
+
+  // Common installation paths to check
+  const paths: string[] = [];
+  const isWindows = platform() === 'win32';
+  const home = homedir();
+
+  if (isWindows) {
+    paths.push(
+      join(home, 'AppData', 'Local', 'Programs', 'claude', 'claude.exe'),
+      join(home, 'AppData', 'Local', 'Programs', 'claude-code', 'claude-code.exe'),
+      'C:\\Program Files\\claude\\claude.exe',
+      'C:\\Program Files\\claude-code\\claude-code.exe'
+    );
+  } else {
+    paths.push(
+      '/usr/local/bin/claude',
+      '/usr/local/bin/claude-code',
+      '/usr/bin/claude',
+      '/usr/bin/claude-code',
+      '/opt/homebrew/bin/claude',
+      '/opt/homebrew/bin/claude-code',
+      join(home, '.local', 'bin', 'claude'),
+      join(home, '.local', 'bin', 'claude-code'),
+      join(home, 'bin', 'claude'),
+      join(home, 'bin', 'claude-code'),
+      join(home, '.claude', 'local', 'claude')  // Claude's custom installation path
+    );
+  }
+
+  // Try global npm/yarn paths
+  try {
+    const { stdout: npmPrefix } = await execa('npm', ['config', 'get', 'prefix']);
+    if (npmPrefix) {
+      paths.push(
+        join(npmPrefix.trim(), 'bin', 'claude'),
+        join(npmPrefix.trim(), 'bin', 'claude-code')
+      );
+    }
+  } catch {
+    // Ignore error and continue
+  }
+
+  // Check each path
+  for (const path of paths) {
+    try {
+      await execa(path, ['--version']);
+      return path;
+    } catch {
+      // Ignore error and continue
+    }
+  }
+
+  throw new CLINotFoundError();
+}
@@ -0,0 +1,208 @@
+import { type ExecaChildProcess } from 'execa';
+import { SubprocessCLITransport, spawnCLI } from './subprocess-cli.js';
+import { signalProcessGroup } from './subprocess-abort-handler.js';
+import { loadSafeEnvironmentOptions } from '../../environment.js';
+import { applyEnvironmentOptions } from '../options-merger.js';
+import type {
+  ClaudeCodeOptions,
+  CLICommand,
+  ProcessPoolOptions,
+  ProcessPoolStats
+} from '../../types.js';
+
+interface PooledProcess {
+  process: ExecaChildProcess;
+  retireTimer: NodeJS.Timeout;
+  onExit: () => void;
+}
+
+interface PoolEntry {
+  fingerprint: string;
+  command: CLICommand;
+  idle: PooledProcess[];
+  // Last warm() or acquire() for this command
+  lastUsed: number;
+}
+
+/**
+ * Keeps pre-spawned Claude Code CLI processes ready so queries skip process
+ * start-up. Processes are grouped by option fingerprint (CLI path, arguments,
+ * cwd and env), so a query only receives a process started with exactly its
+ * own command line.
+ *
+ * Pooled queries send their prompt as stream-json input, which lets an idle
+ * process wait on stdin indefinitely.
+ *
+ * Only commands registered with warm() are pooled. A command that goes
+ * unused for maxAgeMs is dropped once its processes retire.
+ *
+ * @example
+ * ```typescript
+ * const pool = new CLIProcessPool({ size: 2 });
+ * await pool.warm({ model: 'sonnet', cwd: '/srv/app' });
+ *
+ * const text = await claude()
+ *   .withModel('sonnet')
+ *   .inDirectory('/srv/app')
+ *   .withProcessPool(pool)
+ *   .query('Summarize README.md')
+ *   .asText();
+ *
+ * await pool.close();
+ * ```
+ */
+export class CLIProcessPool {
+  private entries = new Map<string, PoolEntry>();
+  private size: number;
+  private maxAgeMs: number;
+  private hits = 0;
+  private misses = 0;
+  private retired = 0;
+  private closed = false;
+
+  constructor(options: ProcessPoolOptions = {}) {
+    this.size = Math.max(0, options.size ?? 2);
+    this.maxAgeMs = options.maxAgeMs ?? 300000;
+  }
+
+  /**
+   * Pre-spawn processes for queries that will use the given options
+   */
+  async warm(options: ClaudeCodeOptions = {}): Promise<void> {
+    // Same environment merge as InternalClient, so the command matches the query's
+    const merged = applyEnvironmentOptions(options, loadSafeEnvironmentOptions());
+    const transport = new SubprocessCLITransport('', { ...merged, processPool: this });
+    const command = await transport.resolveCommand();
+
+    const fingerprint = this.fingerprint(command);
+    let entry = this.entries.get(fingerprint);
+    if (!entry) {
+      entry = { fingerprint, command, idle: [], lastUsed: Date.now() };
+      this.entries.set(fingerprint, entry);
+    }
+    entry.lastUsed = Date.now();
+    this.refill(entry);
+  }
+
+  /**
+   * Take an idle process for the command, or undefined if none is ready.
+   * Warmed commands are refilled in the background either way.
+   */
+  acquire(command: CLICommand): ExecaChildProcess | undefined {
+    if (this.closed) return undefined;
+
+    const entry = this.entries.get(this.fingerprint(command));
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    entry.lastUsed = Date.now();
+    const pooled = entry.idle.shift();
+    setImmediate(() => this.refill(entry));
+
+    if (!pooled) {
+      this.misses++;
+      return undefined;
+    }
+
+    clearTimeout(pooled.retireTimer);
+    pooled.process.removeListener('exit', pooled.onExit);
+    this.hits++;
+    return pooled.process;
+  }
+
+  /**
+   * Get pool counters
+   */
+  getStats(): ProcessPoolStats {
+    let idle = 0;
+    for (const entry of this.entries.values()) {
+      idle += entry.idle.length;
+    }
+
+    return {
+      fingerprints: this.entries.size,
+      idle,
+      hits: this.hits,
+      misses: this.misses,
+      retired: this.retired
+    };
+  }
+
+  /**
+   * Terminate all idle processes. Idle processes keep Node.js running,
+   * so a pool must be closed on shutdown.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+
+    for (const entry of this.entries.values()) {
+      for (const pooled of entry.idle.splice(0)) {
+        this.dispose(pooled);
+      }
+    }
+    this.entries.clear();
+  }
+
+  private fingerprint(command: CLICommand): string {
+    return JSON.stringify([command.cliPath, command.args, command.cwd ?? '', command.env ?? {}, command.detached ?? false]);
+  }
+
+  private refill(entry: PoolEntry): void {
+    while (!this.closed && this.entries.get(entry.fingerprint) === entry && entry.idle.length < this.size) {
+      entry.idle.push(this.spawn(entry));
+    }
+  }
+
+  private spawn(entry: PoolEntry): PooledProcess {
+    const child = spawnCLI(entry.command);
+
+    // Idle processes may be killed or crash; the query that acquires one
+    // awaits it separately, so swallow the rejection here
+    child.catch(() => {});
+
+    const pooled: PooledProcess = {
+      process: child,
+      // Retire after maxAgeMs so long-idle processes don't run on stale state
+      retireTimer: setTimeout(() => {
+        if (this.remove(entry, pooled)) {
+          this.retired++;
+          this.dispose(pooled);
+          if (Date.now() - entry.lastUsed < this.maxAgeMs) {
+            this.refill(entry);
+          } else if (entry.idle.length === 0) {
+            // Unused for a whole process lifetime
+            this.entries.delete(entry.fingerprint);
+          }
+        }
+      }, this.maxAgeMs),
+      // Drop processes that exit while idle; the next acquire() refills
+      onExit: () => {
+        if (this.remove(entry, pooled)) {
+          clearTimeout(pooled.retireTimer);
+        }
+      }
+    };
+    pooled.retireTimer.unref();
+    child.once('exit', pooled.onExit);
+
+    return pooled;
+  }
+
+  private remove(entry: PoolEntry, pooled: PooledProcess): boolean {
+    const index = entry.idle.indexOf(pooled);
+    if (index === -1) return false;
+    entry.idle.splice(index, 1);
+    return true;
+  }
+
+  private dispose(pooled: PooledProcess): void {
+    clearTimeout(pooled.retireTimer);
+    pooled.process.removeListener('exit', pooled.onExit);
+    // Spawned detached, so take down anything the CLI started along with it
+    if (!pooled.process.killed) {
+      signalProcessGroup(pooled.process, 'SIGTERM');
+    }
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Bounded ring buffer of CLI stderr lines
+ */
+export class StderrBuffer {
+  private lines: string[] = [];
+
+  constructor(private capacity: number = 200) {}
+
+  /**
+   * Add a line, dropping the oldest one when full
+   */
+  push(line: string): void {
+    this.lines.push(line);
+    if (this.lines.length > this.capacity) {
+      this.lines.shift();
+    }
+  }
+
+  /**
+   * Get the most recent lines (all buffered lines by default)
+   */
+  tail(count: number = this.capacity): string[] {
+    return this.lines.slice(-count);
+  }
+
+  get size(): number {
+    return this.lines.length;
+  }
+}
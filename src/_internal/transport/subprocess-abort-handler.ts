@@ -1,5 +1,9 @@
 import { type ExecaChildProcess } from 'execa';
 import { AbortError } from '../../errors.js';
+import type { CancellationOptions } from '../../types.js';
+
+const DEFAULT_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGKILL'];
+const DEFAULT_GRACE_PERIOD_MS = 2000;
 
 /**
  * Manages proper subprocess cleanup when AbortSignal is triggered.
@@ -7,11 +11,12 @@ import { AbortError } from '../../errors.js';
  */
 export class SubprocessAbortHandler {
   private cleanupHandler?: () => void;
-  private timeoutId?: NodeJS.Timeout;
+  private terminating = false;
 
   constructor(
     private process: ExecaChildProcess,
-    private signal?: AbortSignal
+    private signal?: AbortSignal,
+    private cancellation: CancellationOptions = {}
   ) {}
 
   /**
@@ -20,27 +25,18 @@ export class SubprocessAbortHandler {
    */
   setup(): () => void {
     if (!this.signal) {
-      return () => {};
+      // terminate() may still be used for timeouts and disconnect()
+      return () => undefined;
     }
 
     // Check if already aborted
     if (this.signal.aborted) {
-      this.process.cancel();
-      throw new AbortError('Operation aborted before starting');
+      this.sendSignal('SIGKILL');
+      throw new AbortError('Operation aborted before starting', [], undefined, this.signal.reason);
     }
 
     // Create abort handler
-    this.cleanupHandler = () => {
-      // Use execa's cancel method for clean termination
-      this.process.cancel();
-      
-      // Set a fallback timeout for forceful termination
-      this.timeoutId = setTimeout(() => {
-        if (!this.process.killed) {
-          this.process.kill('SIGKILL');
-        }
-      }, 5000);
-    };
+    this.cleanupHandler = () => this.terminate();
 
     // Attach abort listener
     this.signal.addEventListener('abort', this.cleanupHandler, { once: true });
@@ -62,17 +58,72 @@ export class SubprocessAbortHandler {
       if (this.cleanupHandler) {
         this.signal?.removeEventListener('abort', this.cleanupHandler);
       }
-      if (this.timeoutId) {
-        clearTimeout(this.timeoutId);
-      }
+      // A termination in progress keeps escalating until the CLI has exited
       this.process.removeListener('error', errorHandler);
     };
   }
 
   /**
-   * Checks if the process was aborted
+   * Terminates the process by walking the signal ladder (SIGINT, SIGTERM,
+   * SIGKILL by default), waiting the grace period between steps.
+   * Used for AbortSignal cancellation, timeouts and disconnecting. Each
+   * step is skipped once the process has exited.
+   */
+  terminate(): void {
+    if (this.terminating) return;
+    this.terminating = true;
+
+    const signals = this.cancellation.signals?.length ? this.cancellation.signals : DEFAULT_SIGNALS;
+    const gracePeriodMs = this.cancellation.gracePeriodMs ?? DEFAULT_GRACE_PERIOD_MS;
+
+    const step = (index: number) => {
+      const signal = signals[index];
+      if (!signal || this.hasExited()) return;
+
+      this.sendSignal(signal);
+      if (index + 1 < signals.length) {
+        setTimeout(() => step(index + 1), gracePeriodMs);
+      }
+    };
+    step(0);
+  }
+
+  /**
+   * Checks if the process was terminated because of the AbortSignal
    */
   wasAborted(): boolean {
-    return this.signal?.aborted ?? false;
+    return this.terminating && (this.signal?.aborted ?? false);
+  }
+
+  /**
+   * Reason passed to AbortController.abort(), if any
+   */
+  get abortReason(): unknown {
+    return this.signal?.reason;
+  }
+
+  private hasExited(): boolean {
+    return this.process.exitCode !== null || this.process.signalCode !== null;
+  }
+
+  private sendSignal(signal: NodeJS.Signals): void {
+    signalProcessGroup(this.process, signal, this.cancellation.killProcessGroup !== false);
+  }
+}
+
+/**
+ * Signal the CLI's process group when it was spawned detached, so tool
+ * subprocesses (e.g. Bash commands) are stopped with it
+ */
+export function signalProcessGroup(child: ExecaChildProcess, signal: NodeJS.Signals, wholeGroup = true): void {
+  const { pid } = child;
+  if (pid !== undefined && wholeGroup && process.platform !== 'win32') {
+    try {
+      process.kill(-pid, signal);
+      return;
+    } catch {
+      // Not a group leader (e.g. not spawned detached); signal the child only
+    }
   }
-}
\ No newline at end of file
+  child.kill(signal);
+}
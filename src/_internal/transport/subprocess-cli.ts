@@ -1,112 +1,169 @@
 import { execa, type ExecaChildProcess } from 'execa';
-import which from 'which';
 import { createInterface } from 'node:readline';
-import { platform } from 'node:os';
-import { join } from 'node:path';
-import { homedir } from 'node:os';
-import { access, constants } from 'node:fs/promises';
-import { CLIConnectionError, CLINotFoundError, ProcessError, CLIJSONDecodeError, AbortError } from '../../errors.js';
-import type { ClaudeCodeOptions, CLIOutput } from '../../types.js';
-import { SubprocessAbortHandler } from './subprocess-abort-handler.js';
-
-export class SubprocessCLITransport {
+import {
+  CLIConnectionError,
+  CLICapabilityError,
+  ProcessError,
+  CLIJSONDecodeError,
+  AbortError,
+  TimeoutError,
+  detectErrorType,
+  createTypedError
+} from '../../errors.js';
+import type {
+  ClaudeCodeOptions,
+  CLIOutput,
+  CLIInputFormat,
+  CLIUserInput,
+  Transport,
+  TimeoutType,
+  ErrorType,
+  CLICommand,
+  ContentBlock,
+  MCPServer,
+  Prompt
+} from '../../types.js';
+import { SubprocessAbortHandler, signalProcessGroup } from './subprocess-abort-handler.js';
+import { StderrBuffer } from './stderr-buffer.js';
+import { findCLI, getCLICapabilities, type CLICapabilities, type CLIFlag } from './cli-capabilities.js';
+import { createUserInput, serializeUserInput } from '../user-input.js';
+import { resolvePromptContent } from '../prompt-content.js';
+import { PermissionPromptBridge, createQueryContext, resolvePermissionHandler } from '../../permissions/prompt-bridge.js';
+import { isSdkMcpServer } from '../../mcp/sdk-server.js';
+import { serializeMCPServers } from '../../mcp/config.js';
+import type { McpRelayHost } from '../../mcp/relay-host.js';
+
+// Number of stderr lines attached to exit errors
+const STDERR_ERROR_TAIL = 20;
+
+// Failures that stderr can reliably identify; anything else stays a ProcessError
+const STDERR_TYPED_ERRORS: ErrorType[] = [
+  'rate_limit_error',
+  'authentication_error',
+  'model_not_available_error',
+  'context_length_exceeded_error',
+  'network_error',
+  'connection_refused_error'
+];
+
+// Process groups of detached CLI processes that are still running
+const liveProcessGroups = new Set<number>();
+let exitHookInstalled = false;
+
+/**
+ * Detached processes don't receive the terminal's Ctrl-C, so stop any
+ * that are still running when Node.js exits
+ */
+function trackProcessGroup(child: ExecaChildProcess): void {
+  const { pid } = child;
+  if (pid === undefined) return;
+
+  liveProcessGroups.add(pid);
+  child.once('exit', () => liveProcessGroups.delete(pid));
+
+  if (!exitHookInstalled) {
+    exitHookInstalled = true;
+    process.once('exit', () => {
+      for (const group of liveProcessGroups) {
+        try {
+          process.kill(-group, 'SIGTERM');
+        } catch {
+          // Already gone
+        }
+      }
+    });
+  }
+}
+
+/**
+ * Spawn the CLI with piped stdio. Signals are handled by SubprocessAbortHandler,
+ * so none is passed to execa.
+ */
+export function spawnCLI(command: CLICommand): ExecaChildProcess {
+  const child = execa(command.cliPath, command.args, {
+    env: {
+      ...process.env,
+      ...command.env,
+      CLAUDE_CODE_ENTRYPOINT: 'sdk-ts'
+    },
+    cwd: command.cwd,
+    stdin: 'pipe',
+    stdout: 'pipe',
+    stderr: 'pipe',
+    buffer: false,
+    detached: command.detached
+  });
+
+  if (command.detached) {
+    trackProcessGroup(child);
+  }
+  return child;
+}
+
+// Unsupported options already warned about (warn once per process)
+const warnedOptions = new Set<string>();
+
+export class SubprocessCLITransport implements Transport {
   private process?: ExecaChildProcess;
   private options: ClaudeCodeOptions;
-  private prompt: string;
+  private prompt: Prompt;
   private abortHandler?: SubprocessAbortHandler;
   private cleanupAbort?: () => void;
-
-  constructor(prompt: string, options: ClaudeCodeOptions = {}) {
+  private inputFormat: CLIInputFormat;
+  private singleTurn: boolean;
+  private overallTimer?: NodeJS.Timeout;
+  private idleTimer?: NodeJS.Timeout;
+  private timedOut?: { type: TimeoutType; ms: number };
+  // Whether a query or turn is being timed; sessions idle between turns
+  private timersArmed = false;
+  private stderr = new StderrBuffer();
+  private permissionBridge?: PermissionPromptBridge;
+  private toolHosts: McpRelayHost[] = [];
+
+  /**
+   * @param prompt - Prompt sent on connect (may be empty in stream-json mode);
+   *   content-block prompts are always sent as stream-json
+   * @param options - Query options
+   * @param inputFormat - 'text' writes the prompt and closes stdin; 'stream-json'
+   *   keeps stdin open so further user messages can be sent with sendMessage()
+   */
+  constructor(prompt: Prompt, options: ClaudeCodeOptions = {}, inputFormat: CLIInputFormat = 'text') {
     this.prompt = prompt;
     this.options = options;
+    // Pooled processes wait on stdin and content blocks need structured input,
+    // both of which only stream-json allows; single-prompt queries then send
+    // one message and close stdin
+    this.inputFormat = options.processPool || Array.isArray(prompt) ? 'stream-json' : inputFormat;
+    this.singleTurn = inputFormat === 'text';
   }
 
-  private async findCLI(): Promise<string> {
-    // First check for local Claude installation (newer version with --output-format support)
-    const localPaths = [
-      join(homedir(), '.claude', 'local', 'claude'),
-      join(homedir(), '.claude', 'bin', 'claude')
-    ];
-    
-    for (const path of localPaths) {
-      try {
-        await access(path, constants.X_OK);
-        return path;
-      } catch {
-        // Continue checking
-      }
-    }
-    
-    // Then try to find in PATH - try both 'claude' and 'claude-code' for compatibility
-    try {
-      return await which('claude');
-    } catch {
-      // Try the alternative name
-      try {
-        return await which('claude-code');
-      } catch {
-        // Not found in PATH, continue to check other locations
-      }
-    }
-
-    // Common installation paths to check
-    const paths: string[] = [];
-    const isWindows = platform() === 'win32';
-    const home = homedir();
-
-    if (isWindows) {
-      paths.push(
-        join(home, 'AppData', 'Local', 'Programs', 'claude', 'claude.exe'),
-        join(home, 'AppData', 'Local', 'Programs', 'claude-code', 'claude-code.exe'),
-        'C:\\Program Files\\claude\\claude.exe',
-        'C:\\Program Files\\claude-code\\claude-code.exe'
-      );
-    } else {
-      paths.push(
-        '/usr/local/bin/claude',
-        '/usr/local/bin/claude-code',
-        '/usr/bin/claude',
-        '/usr/bin/claude-code',
-        '/opt/homebrew/bin/claude',
-        '/opt/homebrew/bin/claude-code',
-        join(home, '.local', 'bin', 'claude'),
-        join(home, '.local', 'bin', 'claude-code'),
-        join(home, 'bin', 'claude'),
-        join(home, 'bin', 'claude-code'),
-        join(home, '.claude', 'local', 'claude')  // Claude's custom installation path
-      );
-    }
-
-    // Try global npm/yarn paths
-    try {
-      const { stdout: npmPrefix } = await execa('npm', ['config', 'get', 'prefix']);
-      if (npmPrefix) {
-        paths.push(
-          join(npmPrefix.trim(), 'bin', 'claude'),
-          join(npmPrefix.trim(), 'bin', 'claude-code')
-        );
-      }
-    } catch {
-      // Ignore error and continue
-    }
-
-    // Check each path
-    for (const path of paths) {
-      try {
-        await execa(path, ['--version']);
-        return path;
-      } catch {
-      // Ignore error and continue
-    }
-    }
-
-    throw new CLINotFoundError();
+  /**
+   * Resolve the CLI executable and the arguments for this query,
+   * negotiating options against the installed CLI's capabilities
+   */
+  async resolveCommand(): Promise<CLICommand> {
+    const cliPath = await findCLI(this.options.cliPath);
+    const capabilities = await getCLICapabilities(cliPath);
+    return {
+      cliPath,
+      args: this.buildCommand(capabilities),
+      cwd: this.options.cwd,
+      env: this.options.env,
+      // Own process group, so cancellation can stop tool subprocesses too
+      detached: this.options.cancellation?.killProcessGroup !== false && process.platform !== 'win32'
+    };
   }
 
-  private buildCommand(): string[] {
+  private buildCommand(capabilities: CLICapabilities): string[] {
     // Build command following Python SDK pattern
     const args: string[] = ['--output-format', 'stream-json', '--verbose'];
 
+    // Long-lived sessions read user messages as JSON lines from stdin
+    if (this.inputFormat === 'stream-json') {
+      this.requireFlag(capabilities, '--input-format', 'stream-json input');
+      args.push('--input-format', 'stream-json');
+    }
+
     // Claude CLI supported flags (from --help)
     if (this.options.model) args.push('--model', this.options.model);
     // Don't pass --debug flag as it produces non-JSON output
@@ -117,11 +174,31 @@ export class SubprocessCLITransport {
     // Handle session resumption
     if (this.options.sessionId) {
       args.push('--resume', this.options.sessionId);
+    } else if (this.options.continueSession) {
+      args.push('--continue');
     }
 
-    // Handle allowed/disallowed tools (Claude CLI uses camelCase flags)
-    if (this.options.allowedTools && this.options.allowedTools.length > 0) {
-      args.push('--allowedTools', this.options.allowedTools.join(','));
+    // Incremental output as stream_event messages
+    if (this.options.includePartialMessages) {
+      if (capabilities.supports('--include-partial-messages')) {
+        args.push('--include-partial-messages');
+      } else {
+        this.unsupportedOption('includePartialMessages', capabilities, 'requires --include-partial-messages');
+      }
+    }
+
+    const mcpServers = this.options.mcpServers ?? [];
+    const sdkServers = mcpServers.filter(isSdkMcpServer);
+    const externalServers = mcpServers.filter((server): server is MCPServer => !isSdkMcpServer(server));
+
+    // Handle allowed/disallowed tools (Claude CLI uses camelCase flags);
+    // tools defined in the SDK need no permission prompt
+    const allowedTools: string[] = [
+      ...(this.options.allowedTools ?? []),
+      ...sdkServers.flatMap(server => server.toolNames)
+    ];
+    if (allowedTools.length > 0) {
+      args.push('--allowedTools', allowedTools.join(','));
     }
     if (this.options.deniedTools && this.options.deniedTools.length > 0) {
       args.push('--disallowedTools', this.options.deniedTools.join(','));
@@ -130,50 +207,68 @@ export class SubprocessCLITransport {
     // Handle permission mode - map to CLI's actual flag
     if (this.options.permissionMode === 'bypassPermissions') {
       args.push('--dangerously-skip-permissions');
+    } else if (this.options.permissionMode && this.options.permissionMode !== 'default') {
+      if (capabilities.supports('--permission-mode')) {
+        args.push('--permission-mode', this.options.permissionMode);
+      } else {
+        this.unsupportedOption('permissionMode', capabilities, `'${this.options.permissionMode}' requires --permission-mode`);
+      }
     }
-    // Note: 'default' and 'acceptEdits' are not supported by current CLI version
 
-    // Handle MCP config
-    if (this.options.mcpServers && this.options.mcpServers.length > 0) {
-      const mcpConfig = {
-        mcpServers: this.options.mcpServers
-      };
-      args.push('--mcp-config', JSON.stringify(mcpConfig));
+    // Handle MCP config (variadic flag, one JSON string per config)
+    const mcpConfigs: string[] = [];
+    if (externalServers.length > 0) {
+      mcpConfigs.push(serializeMCPServers(externalServers));
+    }
+    // Relays for the SDK servers, once connect() has started them
+    mcpConfigs.push(...this.toolHosts.map(host => host.mcpConfig));
+
+    // Route permission prompts to the SDK's handler through the relay
+    const permissionPromptTool = this.permissionBridge?.toolName ?? this.options.permissionPromptTool;
+    if (permissionPromptTool) {
+      if (capabilities.supports('--permission-prompt-tool')) {
+        args.push('--permission-prompt-tool', permissionPromptTool);
+        if (this.permissionBridge) mcpConfigs.push(this.permissionBridge.mcpConfig);
+      } else {
+        this.unsupportedOption(
+          this.permissionBridge ? 'onPermissionRequest' : 'permissionPromptTool',
+          capabilities,
+          'requires --permission-prompt-tool'
+        );
+      }
     }
 
-    // Handle MCP server permissions
-    if (this.options.mcpServerPermissions && Object.keys(this.options.mcpServerPermissions).length > 0) {
-      args.push('--mcp-server-permissions', JSON.stringify(this.options.mcpServerPermissions));
+    if (mcpConfigs.length > 0) {
+      args.push('--mcp-config', ...mcpConfigs);
     }
 
-    // Handle configuration file
-    if (this.options.configFile) {
-      args.push('--config-file', this.options.configFile);
+    // Handle add directories (variadic flag, one argument per directory)
+    if (this.options.addDirectories && this.options.addDirectories.length > 0) {
+      if (capabilities.supports('--add-dir')) {
+        args.push('--add-dir', ...this.options.addDirectories);
+      } else {
+        this.unsupportedOption('addDirectories', capabilities, 'requires --add-dir');
+      }
     }
 
-    // Handle role
+    // Options the CLI has no flag for; passing them would crash the CLI
+    if (this.options.mcpServerPermissions && Object.keys(this.options.mcpServerPermissions).length > 0) {
+      this.unsupportedOption('mcpServerPermissions', capabilities, 'no CLI flag; use allowedTools/deniedTools');
+    }
+    if (this.options.configFile) {
+      this.unsupportedOption('configFile', capabilities, 'no CLI flag; load it with ConfigLoader instead');
+    }
     if (this.options.role) {
-      args.push('--role', this.options.role);
+      this.unsupportedOption('role', capabilities, 'no CLI flag; roles are applied by the SDK');
     }
-
-    // Handle additional context
     if (this.options.context && this.options.context.length > 0) {
-      args.push('--context', ...this.options.context);
+      this.unsupportedOption('context', capabilities, 'no CLI flag; include context in the prompt or use addDirectories');
     }
-
-    // Handle temperature
     if (this.options.temperature !== undefined) {
-      args.push('--temperature', this.options.temperature.toString());
+      this.unsupportedOption('temperature', capabilities, 'no CLI flag');
     }
-
-    // Handle max tokens
     if (this.options.maxTokens !== undefined) {
-      args.push('--max-tokens', this.options.maxTokens.toString());
-    }
-
-    // Handle add directories
-    if (this.options.addDirectories && this.options.addDirectories.length > 0) {
-      args.push('--add-dir', this.options.addDirectories.join(' '));
+      this.unsupportedOption('maxTokens', capabilities, 'no CLI flag');
     }
 
     // Add --print flag (prompt will be sent via stdin)
@@ -182,45 +277,232 @@ export class SubprocessCLITransport {
     return args;
   }
 
+  /**
+   * Fail when a flag the transport cannot work without is missing
+   */
+  private requireFlag(capabilities: CLICapabilities, flag: CLIFlag, feature: string): void {
+    if (!capabilities.supports(flag)) {
+      throw new CLICapabilityError(
+        `Claude Code CLI ${capabilities.version} does not support ${flag} (needed for ${feature})`,
+        flag,
+        capabilities.version
+      );
+    }
+  }
+
+  /**
+   * Drop an option the CLI can't accept, or fail in strict mode
+   */
+  private unsupportedOption(option: keyof ClaudeCodeOptions, capabilities: CLICapabilities, reason: string): void {
+    const message = `Option '${option}' is not supported by Claude Code CLI${capabilities.version ? ` ${capabilities.version}` : ''} (${reason})`;
+
+    if (this.options.strictCapabilities) {
+      throw new CLICapabilityError(message, option, capabilities.version);
+    }
+
+    if (!warnedOptions.has(option)) {
+      warnedOptions.add(option);
+      console.warn(`[Claude SDK] ${message}; ignoring it`);
+    }
+  }
+
   async connect(): Promise<void> {
-    const cliPath = await this.findCLI();
-    const args = this.buildCommand();
+    // Validate attachments before spawning anything
+    const content: string | ContentBlock[] = Array.isArray(this.prompt)
+      ? await resolvePromptContent(this.prompt)
+      : this.prompt;
 
-    const env = {
-      ...process.env,
-      ...this.options.env,
-      CLAUDE_CODE_ENTRYPOINT: 'sdk-ts'
-    };
+    for (const server of (this.options.mcpServers ?? []).filter(isSdkMcpServer)) {
+      this.toolHosts.push(await server.start());
+    }
+    const permissionHandler = resolvePermissionHandler(this.options);
+    if (permissionHandler) {
+      this.permissionBridge = await PermissionPromptBridge.start(
+        permissionHandler,
+        createQueryContext(this.prompt, this.options)
+      );
+    }
+    const command = await this.resolveCommand();
 
     // Debug: Log the actual command being run
     if (this.options.debug) {
       // eslint-disable-next-line no-console
-      console.error('DEBUG: Running command:', cliPath, args.join(' '));
+      console.error('DEBUG: Running command:', command.cliPath, command.args.join(' '));
     }
 
     try {
-      // Don't pass signal to execa - we'll handle it manually
-      this.process = execa(cliPath, args, {
-        env,
-        cwd: this.options.cwd,
-        stdin: 'pipe',
-        stdout: 'pipe',
-        stderr: 'pipe',
-        buffer: false
-        // Remove signal from here - we'll handle it manually
-      });
+      // Reuse a pre-spawned process when a pool is configured (never with
+      // relays: their sockets and tokens are per query, so none could match)
+      const pool = this.toolHosts.length > 0 || this.permissionBridge ? undefined : this.options.processPool;
+      this.process = pool?.acquire(command) ?? spawnCLI(command);
 
       // Set up abort handling with proper cleanup
-      this.abortHandler = new SubprocessAbortHandler(this.process, this.options.signal);
+      this.abortHandler = new SubprocessAbortHandler(this.process, this.options.signal, this.options.cancellation);
       this.cleanupAbort = this.abortHandler.setup();
+
+      this.captureStderr();
+      // Multi-turn sessions time each turn instead (see sendMessage)
+      if (this.singleTurn) {
+        this.startTimers();
+      }
       
-      // Send prompt via stdin
-      if (this.process.stdin) {
-        this.process.stdin.write(this.prompt);
+      if (this.inputFormat === 'stream-json') {
+        if (content.length > 0) {
+          this.sendMessage(createUserInput(content, this.options.sessionId));
+        }
+        // Otherwise keep stdin open for follow-up messages
+        if (this.singleTurn) {
+          this.endInput();
+        }
+      } else if (this.process.stdin) {
+        // Send prompt via stdin
+        this.process.stdin.write(content as string);
         this.process.stdin.end();
       }
     } catch (error) {
-      throw new CLIConnectionError(`Failed to start Claude Code CLI: ${error}`);
+      throw new CLIConnectionError(`Failed to start Claude Code CLI: ${error}`, this.stderr.tail());
+    }
+  }
+
+  /**
+   * Collect stderr in the ring buffer and forward it as diagnostic events
+   */
+  private captureStderr(): void {
+    if (!this.process?.stderr) return;
+
+    const stderrRl = createInterface({
+      input: this.process.stderr,
+      crlfDelay: Infinity
+    });
+
+    stderrRl.on('line', (line) => {
+      this.stderr.push(line);
+
+      if (this.options.debug) {
+        // eslint-disable-next-line no-console
+        console.error('DEBUG stderr:', line);
+      }
+
+      if (this.options.onDiagnostic) {
+        try {
+          this.options.onDiagnostic({ type: 'diagnostic', source: 'stderr', line, timestamp: Date.now() });
+        } catch {
+          // Diagnostic handlers must not break the transport
+        }
+      }
+    });
+  }
+
+  /**
+   * Most recent stderr lines written by the CLI
+   */
+  getStderr(): string[] {
+    return this.stderr.tail();
+  }
+
+  /**
+   * Build the error for a non-zero exit, preferring a typed error when
+   * stderr identifies the failure (e.g. authentication or rate limiting)
+   */
+  private createExitError(exitCode?: number, signal?: NodeJS.Signals): Error {
+    const stderr = this.stderr.tail(STDERR_ERROR_TAIL);
+
+    if (stderr.length > 0) {
+      const stderrText = stderr.join('\n');
+      const errorType = detectErrorType(stderrText);
+      if (STDERR_TYPED_ERRORS.includes(errorType)) {
+        return createTypedError(errorType, stderrText);
+      }
+    }
+
+    const lastLine = stderr[stderr.length - 1];
+    return new ProcessError(
+      `Claude Code CLI exited with code ${exitCode}${lastLine ? `: ${lastLine}` : ''}`,
+      exitCode,
+      signal,
+      stderr
+    );
+  }
+
+  private startTimers(): void {
+    const { timeout } = this.options;
+
+    this.clearTimers();
+    this.timersArmed = true;
+    if (timeout && timeout > 0) {
+      this.overallTimer = setTimeout(() => this.fireTimeout('overall', timeout), timeout);
+    }
+    this.resetIdleTimer();
+  }
+
+  private resetIdleTimer(): void {
+    const { idleTimeout } = this.options;
+    if (!idleTimeout || idleTimeout <= 0 || this.timedOut || !this.timersArmed) return;
+
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+    }
+    this.idleTimer = setTimeout(() => this.fireTimeout('idle', idleTimeout), idleTimeout);
+  }
+
+  private clearTimers(): void {
+    this.timersArmed = false;
+    if (this.overallTimer) {
+      clearTimeout(this.overallTimer);
+      this.overallTimer = undefined;
+    }
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = undefined;
+    }
+  }
+
+  private fireTimeout(type: TimeoutType, ms: number): void {
+    if (this.timedOut) return;
+    this.timedOut = { type, ms };
+    this.clearTimers();
+    // Same kill escalation as AbortSignal cancellation
+    this.abortHandler?.terminate();
+  }
+
+  private createTimeoutError(): TimeoutError {
+    const { type, ms } = this.timedOut!;
+    const message = type === 'idle'
+      ? `Claude Code CLI produced no output for ${ms}ms (idle timeout)`
+      : `Claude Code CLI did not finish within ${ms}ms (overall timeout)`;
+    return new TimeoutError(message, ms, type);
+  }
+
+  private createAbortError(): AbortError {
+    const reason = this.abortHandler?.abortReason;
+    const detail = typeof reason === 'string' ? `: ${reason}` : '';
+    return new AbortError(`Query was aborted via AbortSignal${detail}`, [], undefined, reason);
+  }
+
+  /**
+   * Write a user message to the CLI (stream-json input mode only)
+   */
+  sendMessage(input: CLIUserInput): void {
+    if (this.inputFormat !== 'stream-json') {
+      throw new CLIConnectionError('sendMessage() requires stream-json input format');
+    }
+    if (!this.process?.stdin || this.process.stdin.writableEnded) {
+      throw new CLIConnectionError('CLI input stream is not open');
+    }
+
+    this.process.stdin.write(serializeUserInput(input));
+    // timeout and idleTimeout apply to each turn of a multi-turn session
+    if (!this.singleTurn) {
+      this.startTimers();
+    }
+  }
+
+  /**
+   * Close stdin, letting the CLI finish its current turn and exit
+   */
+  endInput(): void {
+    if (this.process?.stdin && !this.process.stdin.writableEnded) {
+      this.process.stdin.end();
     }
   }
 
@@ -230,21 +512,6 @@ export class SubprocessCLITransport {
     }
 
     try {
-      // Handle stderr in background
-      if (this.process.stderr) {
-        const stderrRl = createInterface({
-          input: this.process.stderr,
-          crlfDelay: Infinity
-        });
-        
-        stderrRl.on('line', (line) => {
-          if (this.options.debug) {
-            // eslint-disable-next-line no-console
-            console.error('DEBUG stderr:', line);
-          }
-        });
-      }
-
       const rl = createInterface({
         input: this.process.stdout,
         crlfDelay: Infinity
@@ -252,6 +519,7 @@ export class SubprocessCLITransport {
 
       // Process stream-json format - each line is a JSON object
       for await (const line of rl) {
+        this.resetIdleTimer();
         const trimmedLine = line.trim();
         if (!trimmedLine) continue;
         
@@ -262,6 +530,9 @@ export class SubprocessCLITransport {
         
         try {
           const parsed = JSON.parse(trimmedLine) as CLIOutput;
+          if (parsed.type === 'result' && !this.singleTurn) {
+            this.clearTimers();
+          }
           yield parsed;
         } catch (error) {
           // Skip non-JSON lines (like Python SDK does)
@@ -279,22 +550,32 @@ export class SubprocessCLITransport {
       try {
         await this.process;
       } catch (error: any) {
+        if (this.timedOut) {
+          throw this.createTimeoutError();
+        }
+
         // Check if the process was cancelled/aborted
         if (error.isCanceled || error.name === 'CancelError' || this.abortHandler?.wasAborted()) {
           // Throw a proper AbortError so it can be caught by the user
-          throw new AbortError('Query was aborted via AbortSignal');
+          throw this.createAbortError();
         }
         
         const execError = error as { exitCode?: number; signal?: NodeJS.Signals };
         if (execError.exitCode !== 0) {
-          throw new ProcessError(
-            `Claude Code CLI exited with code ${execError.exitCode}`,
-            execError.exitCode,
-            execError.signal
-          );
+          throw this.createExitError(execError.exitCode, execError.signal);
         }
       }
+
+      if (this.timedOut) {
+        throw this.createTimeoutError();
+      }
+      // The CLI may exit cleanly on SIGINT; the query was still cut short
+      if (this.abortHandler?.wasAborted()) {
+        throw this.createAbortError();
+      }
     } finally {
+      this.clearTimers();
+
       // Clean up abort handler
       if (this.cleanupAbort) {
         this.cleanupAbort();
@@ -303,6 +584,8 @@ export class SubprocessCLITransport {
   }
 
   async disconnect(): Promise<void> {
+    this.clearTimers();
+
     // Clean up abort handler first
     if (this.cleanupAbort) {
       this.cleanupAbort();
@@ -310,12 +593,22 @@ export class SubprocessCLITransport {
     }
     
     if (this.process) {
-      // Kill the process if it's still running
-      if (!this.process.killed) {
-        this.process.kill();
+      // Stop the CLI's process group if it's still running, escalating like
+      // an abort (a termination already under way carries on)
+      if (this.abortHandler) {
+        this.abortHandler.terminate();
+      } else if (!this.process.killed) {
+        signalProcessGroup(this.process, 'SIGTERM', this.options.cancellation?.killProcessGroup !== false);
       }
       this.process = undefined;
     }
+
+    if (this.permissionBridge) {
+      await this.permissionBridge.close();
+      this.permissionBridge = undefined;
+    }
+    await Promise.all(this.toolHosts.map(host => host.close()));
+    this.toolHosts = [];
     
     this.abortHandler = undefined;
   }
@@ -0,0 +1,33 @@
+/**
+ * Helpers for building stream-json user input messages
+ */
+
+import type { CLIUserInput, ContentBlock } from '../types.js';
+
+/**
+ * Wrap a text prompt or resolved content blocks in the user message
+ * envelope the CLI expects when reading stream-json from stdin.
+ */
+export function createUserInput(prompt: string | ContentBlock[], sessionId?: string): CLIUserInput {
+  const input: CLIUserInput = {
+    type: 'user',
+    message: {
+      role: 'user',
+      content: typeof prompt === 'string' ? [{ type: 'text', text: prompt }] : prompt
+    },
+    parent_tool_use_id: null
+  };
+
+  if (sessionId) {
+    input.session_id = sessionId;
+  }
+
+  return input;
+}
+
+/**
+ * Serialize a user input message as a single stream-json line
+ */
+export function serializeUserInput(input: CLIUserInput): string {
+  return `${JSON.stringify(input)}\n`;
+}
@@ -7,9 +7,10 @@ import type {
   MCPServerConfig,
   ConfigFormat
 } from '../types/config.js';
-import type { ClaudeCodeOptions } from '../types.js';
+import type { ClaudeCodeOptions, MCPServer } from '../types.js';
 import type { MCPServerPermission } from '../types/permissions.js';
 import { ConfigValidationError } from '../errors.js';
+import { findMCPServerProblem } from '../mcp/config.js';
 
 /**
  * Loads and validates configuration files
@@ -157,6 +158,14 @@ export class ConfigLoader {
    */
   private validateMCPServerConfig(serverName: string, config: MCPServerConfig): void {
     const validPermissions: ToolPermission[] = ['allow', 'deny', 'ask'];
+
+    // Connection settings, when the entry defines how to reach the server
+    if (hasConnection(config)) {
+      const problem = findMCPServerProblem(config as unknown as Record<string, unknown>);
+      if (problem) {
+        throw new Error(`Invalid MCP server at mcpServers.${serverName}: ${problem}`);
+      }
+    }
     
     if (!validPermissions.includes(config.defaultPermission)) {
       throw new Error(
@@ -290,6 +299,17 @@ export class ConfigLoader {
         ...merged.mcpServerPermissions,
         ...mcpServerPermissions
       };
+
+      // Servers the config defines connections for
+      const servers = Object.entries(config.mcpServers)
+        .filter(([, serverConfig]) => hasConnection(serverConfig))
+        .map(([serverName, serverConfig]) => toMCPServer(serverName, serverConfig));
+      if (servers.length > 0) {
+        const existing = merged.mcpServers || [];
+        merged.mcpServers = configPrecedence
+          ? [...existing.filter(server => !servers.some(entry => entry.name === server.name)), ...servers]
+          : [...existing, ...servers.filter(server => !existing.some(entry => entry.name === server.name))];
+      }
     }
 
     // Apply tool permissions
@@ -392,4 +412,16 @@ export class ConfigLoader {
   getCached(filePath: string): MCPConfigSchema | undefined {
     return this.loadedConfigs.get(filePath);
   }
-}
\ No newline at end of file
+}
+
+// Whether a config entry says how to reach its server
+function hasConnection(config: MCPServerConfig): boolean {
+  return config.type !== undefined || config.command !== undefined || config.url !== undefined;
+}
+
+function toMCPServer(name: string, config: MCPServerConfig): MCPServer {
+  if (config.type === 'sse' || config.type === 'http') {
+    return { type: config.type, name, url: config.url!, headers: config.headers };
+  }
+  return { type: 'stdio', name, command: config.command!, args: config.args, env: config.env };
+}
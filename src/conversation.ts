@@ -0,0 +1,228 @@
+import { ResponseParser, usageFromResult, type UsageStats } from './parser.js';
+import { SessionStore } from './session/store.js';
+import { ClaudeSDKError } from './errors.js';
+import type { Message, Prompt } from './types.js';
+
+/**
+ * Runs one turn of a conversation; supplied by QueryBuilder.conversation()
+ */
+export interface ConversationRunner {
+  /** Start a query, resuming the given session if any */
+  query(prompt: Prompt, sessionId?: string): AsyncGenerator<Message>;
+  /** Wrap a turn's messages in a parser with the builder's handlers */
+  createParser(generator: AsyncGenerator<Message>): ResponseParser;
+}
+
+/**
+ * One completed or in-flight turn of a conversation
+ */
+export interface ConversationTurn {
+  /** Position in the conversation (0-based) */
+  index: number;
+  prompt: Prompt;
+  /** Session the turn resumed (undefined for the first turn) */
+  resumedFrom?: string;
+  /** Session id reported by the CLI for this turn */
+  sessionId?: string;
+  /** Messages received so far */
+  messages: Message[];
+  /** Usage from the turn's result message */
+  usage: UsageStats | null;
+  status: 'pending' | 'completed' | 'failed';
+}
+
+/**
+ * Multi-turn conversation that keeps a builder's options and threads the
+ * session id from one turn into the next.
+ *
+ * @example
+ * ```typescript
+ * const chat = claude().withModel('sonnet').conversation();
+ *
+ * await chat.send('Remember the number 42').asText();
+ * const answer = await chat.send('Which number was it?').asText();
+ *
+ * await chat.undo();                 // forget the last turn
+ * const alt = await chat.branch(1);  // new conversation from after turn 1
+ * ```
+ */
+export class Conversation {
+  private turns: ConversationTurn[];
+  private _sessionId?: string;
+  private lastParser?: ResponseParser;
+  // Turns of `history` already contained in options.sessionId
+  private baseHistoryLength: number;
+  private baseOffset?: Promise<number>;
+
+  constructor(
+    private runner: ConversationRunner,
+    private options: { sessionId?: string; cwd?: string } = {},
+    history: ConversationTurn[] = []
+  ) {
+    this._sessionId = options.sessionId;
+    this.turns = history;
+    this.baseHistoryLength = history.length;
+  }
+
+  /**
+   * Session id the next turn will resume
+   */
+  get sessionId(): string | undefined {
+    return this._sessionId;
+  }
+
+  /**
+   * Turns sent so far
+   */
+  get history(): readonly ConversationTurn[] {
+    return this.turns;
+  }
+
+  /**
+   * Total usage across all completed turns
+   */
+  get usage(): UsageStats {
+    const total: UsageStats = {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
+      totalTokens: 0,
+      totalCost: 0
+    };
+    for (const turn of this.turns) {
+      if (!turn.usage) continue;
+      total.inputTokens += turn.usage.inputTokens;
+      total.outputTokens += turn.usage.outputTokens;
+      total.cacheCreationTokens += turn.usage.cacheCreationTokens;
+      total.cacheReadTokens += turn.usage.cacheReadTokens;
+      total.totalTokens += turn.usage.totalTokens;
+      total.totalCost += turn.usage.totalCost;
+    }
+    return total;
+  }
+
+  /**
+   * Send the next prompt. If the previous turn hasn't been read yet it is
+   * consumed first, so the new turn can resume its session.
+   */
+  send(prompt: Prompt): ResponseParser {
+    const turn: ConversationTurn = {
+      index: this.turns.length,
+      prompt,
+      messages: [],
+      usage: null,
+      status: 'pending'
+    };
+    this.turns.push(turn);
+
+    const previous = this.lastParser;
+    const parser = this.runner.createParser(this.runTurn(turn, previous));
+    this.lastParser = parser;
+    return parser;
+  }
+
+  /**
+   * Remove the last turn; the next send() continues from the turn before it
+   */
+  async undo(): Promise<ConversationTurn | undefined> {
+    await this.settle();
+
+    const removed = this.turns.pop();
+    if (!removed) return undefined;
+
+    this._sessionId = await this.forkAt(this.turns.length, removed.sessionId ?? this._sessionId);
+    return removed;
+  }
+
+  /**
+   * Start a new conversation from the state after `turnCount` turns
+   * (default: all of them). This conversation is left unchanged.
+   */
+  async branch(turnCount: number = this.turns.length): Promise<Conversation> {
+    await this.settle();
+
+    if (turnCount < 0 || turnCount > this.turns.length) {
+      throw new ClaudeSDKError(`Cannot branch at turn ${turnCount}; the conversation has ${this.turns.length} turns`);
+    }
+
+    const sessionId = await this.forkAt(turnCount);
+    return new Conversation(
+      this.runner,
+      { ...this.options, sessionId },
+      this.turns.slice(0, turnCount).map(turn => ({ ...turn, messages: [...turn.messages] }))
+    );
+  }
+
+  private async *runTurn(turn: ConversationTurn, previous?: ResponseParser): AsyncGenerator<Message> {
+    // The previous turn's session id is only known once it has finished
+    if (previous) {
+      await previous.asArray().catch(() => undefined);
+    }
+
+    turn.resumedFrom = this._sessionId;
+    try {
+      // Count the starting session's turns before this conversation adds to it
+      await this.getBaseOffset();
+
+      for await (const message of this.runner.query(turn.prompt, this._sessionId)) {
+        turn.messages.push(message);
+        if (message.session_id) {
+          turn.sessionId = message.session_id;
+        }
+        if (message.type === 'result') {
+          turn.usage = usageFromResult(message);
+        }
+        yield message;
+      }
+      turn.status = 'completed';
+    } catch (error) {
+      turn.status = 'failed';
+      throw error;
+    } finally {
+      // Only advance if this turn is still part of the conversation
+      if (turn.sessionId && this.turns[turn.index] === turn) {
+        this._sessionId = turn.sessionId;
+      }
+    }
+  }
+
+  /**
+   * Turns already in the session this conversation started from, other
+   * than those carried over in its history
+   */
+  private getBaseOffset(): Promise<number> {
+    if (!this.baseOffset) {
+      const baseSessionId = this.options.sessionId;
+      this.baseOffset = baseSessionId
+        ? new SessionStore({ cwd: this.options.cwd }).get(baseSessionId)
+          .then(base => Math.max(0, (base?.turnCount ?? 0) - this.baseHistoryLength))
+          .catch(() => 0)
+        : Promise.resolve(0);
+    }
+    return this.baseOffset;
+  }
+
+  private async settle(): Promise<void> {
+    await this.lastParser?.asArray().catch(() => undefined);
+  }
+
+  /**
+   * Fork the latest transcript keeping the first `turnCount` turns of this
+   * conversation, and return the new session id (undefined when nothing is kept)
+   */
+  private async forkAt(turnCount: number, fromSessionId?: string): Promise<string | undefined> {
+    const store = new SessionStore({ cwd: this.options.cwd });
+
+    const keep = await this.getBaseOffset() + turnCount;
+    if (keep === 0) return undefined;
+
+    const source = fromSessionId ?? this._sessionId;
+    if (!source) {
+      throw new ClaudeSDKError('Cannot fork a conversation before its session id is known');
+    }
+
+    const fork = await store.fork(source, { turns: keep });
+    return fork.sessionId;
+  }
+}
@@ -22,6 +22,16 @@ export {
   createTokenStream,
   TokenStreamImpl
 } from '../streaming/token-stream.js';
+export {
+  createTokenStreamFactory,
+  ClaudeTokenStreamFactory
+} from '../streaming/factory.js';
+export { ReplayTokenStreamImpl } from '../streaming/replay.js';
+export {
+  estimateTokens,
+  getTokenizer,
+  ApproximateTokenizer
+} from '../streaming/tokenizer.js';
 
 // Per-call permissions
 export {
@@ -69,6 +79,11 @@ export type {
   StreamController,
   StreamMetrics,
   StreamState,
+  TokenStreamFactory,
+  ReplayTokenStream,
+  EnhancedStreamController,
+  Tokenizer,
+  TokenEstimateContext,
   
   // Per-call permissions
   ToolOverrides,
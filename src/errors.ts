@@ -1,3 +1,6 @@
+import type { BudgetLimit, Message, SchemaValidationIssue } from './types.js';
+import type { UsageStats } from './parser.js';
+
 // Base error class for all Claude SDK errors
 export class ClaudeSDKError extends Error {
   constructor(message: string, public readonly code?: string) {
@@ -9,7 +12,10 @@ export class ClaudeSDKError extends Error {
 
 // Error when CLI connection fails
 export class CLIConnectionError extends ClaudeSDKError {
-  constructor(message: string) {
+  constructor(
+    message: string,
+    public readonly stderr: string[] = []
+  ) {
     super(message);
     this.name = 'CLIConnectionError';
     Object.setPrototypeOf(this, CLIConnectionError.prototype);
@@ -25,12 +31,26 @@ export class CLINotFoundError extends ClaudeSDKError {
   }
 }
 
+// Error when an option or flag is not supported by the installed CLI
+export class CLICapabilityError extends ClaudeSDKError {
+  constructor(
+    message: string,
+    public readonly option: string,
+    public readonly cliVersion: string | null
+  ) {
+    super(message);
+    this.name = 'CLICapabilityError';
+    Object.setPrototypeOf(this, CLICapabilityError.prototype);
+  }
+}
+
 // Error when CLI process fails
 export class ProcessError extends ClaudeSDKError {
   constructor(
     message: string,
     public readonly exitCode?: number | null,
-    public readonly signal?: NodeJS.Signals | null
+    public readonly signal?: NodeJS.Signals | null,
+    public readonly stderr: string[] = []
   ) {
     super(message);
     this.name = 'ProcessError';
@@ -40,13 +60,48 @@ export class ProcessError extends ClaudeSDKError {
 
 // Error when operation is aborted via AbortSignal
 export class AbortError extends ClaudeSDKError {
-  constructor(message: string = 'Operation was aborted') {
+  constructor(
+    message: string = 'Operation was aborted',
+    public readonly partialMessages: Message[] = [],
+    public readonly sessionId?: string,
+    public readonly reason?: unknown
+  ) {
     super(message, 'ABORT_ERROR');
     this.name = 'AbortError';
     Object.setPrototypeOf(this, AbortError.prototype);
   }
 }
 
+// Error when a response cannot be turned into valid structured output
+export class StructuredOutputError extends ClaudeSDKError {
+  constructor(
+    message: string,
+    public readonly rawText: string,
+    public readonly issues: SchemaValidationIssue[] = [],
+    public readonly attempts: number = 1
+  ) {
+    super(message, 'STRUCTURED_OUTPUT_ERROR');
+    this.name = 'StructuredOutputError';
+    Object.setPrototypeOf(this, StructuredOutputError.prototype);
+  }
+}
+
+// Error when a query crosses its cost or output token ceiling
+export class BudgetExceededError extends ClaudeSDKError {
+  constructor(
+    message: string,
+    public readonly limit: BudgetLimit,
+    public readonly ceiling: number,
+    public readonly usage: UsageStats,
+    public readonly partialMessages: Message[] = [],
+    public readonly sessionId?: string
+  ) {
+    super(message, 'BUDGET_EXCEEDED');
+    this.name = 'BudgetExceededError';
+    Object.setPrototypeOf(this, BudgetExceededError.prototype);
+  }
+}
+
 // Error when JSON parsing fails
 export class CLIJSONDecodeError extends ClaudeSDKError {
   constructor(
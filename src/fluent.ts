@@ -8,13 +8,30 @@ import type {
   MCPServerPermissionConfig,
   MCPConfigSchema,
   RoleDefinition,
-  ContentBlock
+  ContentBlock,
+  DiagnosticEvent,
+  Transport,
+  TransportFactory,
+  ReplayOptions,
+  QueryPriority,
+  Prompt,
+  CancellationOptions,
+  BudgetOptions,
+  PermissionMiddleware,
+  PermissionRequestHandler,
+  SdkTool
 } from './types.js';
 import { ResponseParser } from './parser.js';
+import { Conversation } from './conversation.js';
 import { Logger } from './logger.js';
 import { PermissionManager } from './permissions/manager.js';
 import { ConfigLoader } from './config/loader.js';
 import { RoleManager } from './roles/manager.js';
+import { ReplayTransport } from './transport/cassette.js';
+import type { CLIProcessPool } from './_internal/transport/process-pool.js';
+import type { QueryScheduler } from './scheduler/query-scheduler.js';
+import type { UsageLedger } from './usage/ledger.js';
+import { SdkMcpServer, createSdkMcpServer } from './mcp/sdk-server.js';
 
 /**
  * Fluent API for building Claude Code queries with chainable methods
@@ -34,12 +51,19 @@ import { RoleManager } from './roles/manager.js';
 export class QueryBuilder {
   private options: ClaudeCodeOptions = {};
   private messageHandlers: Array<(message: Message) => void> = [];
+  private diagnosticHandlers: Array<(event: DiagnosticEvent) => void> = [];
   private logger?: Logger;
   private permissionManager: PermissionManager;
   private configLoader: ConfigLoader;
   private roleManager: RoleManager;
   private rolePromptingTemplate?: string;
   private roleTemplateVariables?: Record<string, string>;
+  private roleName?: string;
+  private usageLedger?: UsageLedger;
+  private usageLabels: Record<string, string> = {};
+  // Tools passed to withTools() on their own, served as one MCP server
+  private sdkTools: SdkTool[] = [];
+  private sdkToolServer?: SdkMcpServer;
 
   constructor() {
     this.permissionManager = new PermissionManager();
@@ -131,6 +155,14 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Kill the query if the CLI produces no output for the given milliseconds
+   */
+  withIdleTimeout(ms: number): this {
+    this.options.idleTimeout = ms;
+    return this;
+  }
+
   /**
    * Set AbortSignal for cancellation
    */
@@ -139,6 +171,15 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Configure how the CLI is stopped on abort or timeout (signal ladder,
+   * grace period, process-group termination)
+   */
+  withCancellation(options: CancellationOptions): this {
+    this.options.cancellation = { ...this.options.cancellation, ...options };
+    return this;
+  }
+
   /**
    * Set session ID for continuing an existing conversation
    */
@@ -147,6 +188,102 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Continue the most recent session in the working directory
+   */
+  continueLatestSession(): this {
+    this.options.continueSession = true;
+    return this;
+  }
+
+  /**
+   * Use an explicit Claude Code CLI executable instead of searching for one
+   */
+  withCLIPath(cliPath: string): this {
+    this.options.cliPath = cliPath;
+    return this;
+  }
+
+  /**
+   * Fail instead of dropping options the installed CLI does not support
+   */
+  strictCapabilities(enabled = true): this {
+    this.options.strictCapabilities = enabled;
+    return this;
+  }
+
+  /**
+   * Take pre-spawned CLI processes from a warm pool
+   */
+  withProcessPool(pool: CLIProcessPool): this {
+    this.options.processPool = pool;
+    return this;
+  }
+
+  /**
+   * Run queries through a scheduler that limits concurrency
+   */
+  withScheduler(scheduler: QueryScheduler, options: { priority?: QueryPriority; key?: string } = {}): this {
+    this.options.scheduler = scheduler;
+    if (options.priority) this.options.priority = options.priority;
+    if (options.key) this.options.schedulerKey = options.key;
+    return this;
+  }
+
+  /**
+   * Cancel the query with a BudgetExceededError once it costs more than
+   * `maxBudgetUsd` or generates more than `maxOutputTokens`
+   */
+  withBudget(budget: BudgetOptions): this {
+    this.options.maxBudgetUsd = budget.maxBudgetUsd;
+    this.options.maxOutputTokens = budget.maxOutputTokens;
+    this.options.budgetPreflight = budget.preflight;
+    return this;
+  }
+
+  /**
+   * Record the usage and cost of each query in a ledger, tagged with the
+   * model, role, session, working directory and the given labels
+   */
+  withUsageLedger(ledger: UsageLedger, labels: Record<string, string> = {}): this {
+    this.usageLedger = ledger;
+    this.usageLabels = { ...this.usageLabels, ...labels };
+    return this;
+  }
+
+  /**
+   * Use a custom transport instead of spawning the Claude Code CLI
+   */
+  withTransport(transport: Transport | TransportFactory): this {
+    this.options.transport = transport;
+    return this;
+  }
+
+  /**
+   * Record raw CLI output of each query to a JSONL cassette
+   */
+  recordTo(cassettePath: string): this {
+    this.options.recordTo = cassettePath;
+    return this;
+  }
+
+  /**
+   * Replay a recorded cassette instead of running the CLI
+   */
+  replayFrom(cassettePath: string, options?: ReplayOptions): this {
+    this.options.transport = () => new ReplayTransport(cassettePath, options);
+    return this;
+  }
+
+  /**
+   * Receive incremental output as stream_event messages while the
+   * assistant is still generating (used for real token streaming)
+   */
+  withPartialMessages(enabled = true): this {
+    this.options.includePartialMessages = enabled;
+    return this;
+  }
+
   /**
    * Enable debug mode
    */
@@ -163,6 +300,26 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Give the model tools implemented in this process. Tools passed on their
+   * own are served as the 'sdk_tools' MCP server (mcp__sdk_tools__<name>).
+   */
+  withTools(...tools: Array<SdkTool | SdkMcpServer>): this {
+    const servers = tools.filter((item): item is SdkMcpServer => item instanceof SdkMcpServer);
+    this.sdkTools.push(...tools.filter((item): item is SdkTool => !(item instanceof SdkMcpServer)));
+
+    const previous = this.sdkToolServer;
+    if (this.sdkTools.length > 0) {
+      this.sdkToolServer = createSdkMcpServer({ name: 'sdk_tools', tools: this.sdkTools });
+    }
+    this.options.mcpServers = [
+      ...(this.options.mcpServers || []).filter(server => server !== previous),
+      ...servers,
+      ...(this.sdkToolServer ? [this.sdkToolServer] : [])
+    ];
+    return this;
+  }
+
   /**
    * Add directory(-ies) to include in the context
    */
@@ -191,6 +348,24 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Decide the CLI's tool permission prompts in code (allow, deny with a
+   * reason, or allow with rewritten input) instead of in a terminal
+   */
+  onPermissionRequest(handler: PermissionRequestHandler): this {
+    this.options.onPermissionRequest = handler;
+    return this;
+  }
+
+  /**
+   * Route permission prompts through middleware; afterToolExecution is
+   * called with each tool result
+   */
+  withPermissionMiddleware(middleware: PermissionMiddleware): this {
+    this.options.permissionMiddleware = middleware;
+    return this;
+  }
+
   /**
    * Add handler for specific message type
    */
@@ -203,6 +378,22 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Add handler for extended thinking
+   */
+  onThinking(handler: (thinking: string) => void): this {
+    this.messageHandlers.push((msg) => {
+      if (msg.type === 'assistant') {
+        for (const block of msg.content) {
+          if (block.type === 'thinking') {
+            handler(block.thinking);
+          }
+        }
+      }
+    });
+    return this;
+  }
+
   /**
    * Add handler for tool usage
    */
@@ -219,6 +410,14 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Add handler for CLI diagnostic output (stderr lines)
+   */
+  onDiagnostic(handler: (event: DiagnosticEvent) => void): this {
+    this.diagnosticHandlers.push(handler);
+    return this;
+  }
+
   /**
    * Set MCP server permission
    */
@@ -276,6 +475,7 @@ export class QueryBuilder {
     if (typeof roleOrName === 'string') {
       const options = this.roleManager.applyRole(roleOrName, this.options);
       this.options = options;
+      this.roleName = roleOrName;
       
       // Store role template info if available
       const role = this.roleManager.getRole(roleOrName);
@@ -290,6 +490,7 @@ export class QueryBuilder {
       this.roleManager.addRole(roleOrName);
       const options = this.roleManager.applyRole(roleOrName.name, this.options);
       this.options = options;
+      this.roleName = roleOrName.name;
       
       if (roleOrName.promptingTemplate) {
         this.rolePromptingTemplate = roleOrName.promptingTemplate;
@@ -311,68 +512,132 @@ export class QueryBuilder {
   }
 
   /**
-   * Execute query and return response parser
+   * Build the options passed to a single query
    */
-  query(prompt: string): ResponseParser {
+  private prepareOptions(): ClaudeCodeOptions {
     // Apply MCP server permissions
-    const finalOptions = this.permissionManager.applyToOptions(this.options);
-    
-    // Apply prompting template if available
-    let finalPrompt = prompt;
+    const finalOptions = { ...this.permissionManager.applyToOptions(this.options) };
+
+    if (this.diagnosticHandlers.length > 0) {
+      const handlers = [...this.diagnosticHandlers];
+      finalOptions.onDiagnostic = (event) => {
+        for (const handler of handlers) {
+          try {
+            handler(event);
+          } catch (error) {
+            this.logger?.error('Diagnostic handler error', { error });
+          }
+        }
+      };
+    }
+
+    return finalOptions;
+  }
+
+  /**
+   * Message handlers for a single query, including its usage ledger entry
+   */
+  private handlersFor(finalOptions: ClaudeCodeOptions): Array<(message: Message) => void> {
+    if (!this.usageLedger) return this.messageHandlers;
+
+    return [
+      ...this.messageHandlers,
+      this.usageLedger.observer({
+        model: finalOptions.model,
+        cwd: finalOptions.cwd,
+        role: this.roleName,
+        labels: this.usageLabels
+      })
+    ];
+  }
+
+  /**
+   * Prepend the system prompt and role template (if any) to the prompt.
+   * For content-block prompts the prefix becomes a leading text block.
+   */
+  private buildPrompt(prompt: Prompt, finalOptions: ClaudeCodeOptions): Prompt {
+    const prefixes: string[] = [];
+    if (finalOptions.systemPrompt) {
+      prefixes.push(finalOptions.systemPrompt);
+    }
     if (this.rolePromptingTemplate && this.roleTemplateVariables) {
-      const templatedPrompt = this.rolePromptingTemplate.replace(
+      prefixes.push(this.rolePromptingTemplate.replace(
         /\$\{([^}]+)\}/g, 
         (match, varName) => this.roleTemplateVariables![varName] || match
-      );
-      
-      if (finalOptions.systemPrompt) {
-        finalPrompt = `${finalOptions.systemPrompt}\n\n${templatedPrompt}\n\n${prompt}`;
-      } else {
-        finalPrompt = `${templatedPrompt}\n\n${prompt}`;
-      }
-    } else if (finalOptions.systemPrompt) {
-      finalPrompt = `${finalOptions.systemPrompt}\n\n${prompt}`;
+      ));
     }
+
+    if (prefixes.length === 0) return prompt;
+
+    const prefix = prefixes.join('\n\n');
+    if (typeof prompt === 'string') {
+      return `${prefix}\n\n${prompt}`;
+    }
+    return [{ type: 'text', text: prefix }, ...prompt];
+  }
+
+  /**
+   * Execute query and return response parser
+   *
+   * @param prompt - Text, or content blocks to attach images and documents
+   */
+  query(prompt: Prompt): ResponseParser {
+    const finalOptions = this.prepareOptions();
+    
+    const finalPrompt = this.buildPrompt(prompt, finalOptions);
     
     const parser = new ResponseParser(
       baseQuery(finalPrompt, finalOptions),
-      this.messageHandlers,
-      this.logger
+      this.handlersFor(finalOptions),
+      this.logger,
+      // Structured output repairs continue the same session
+      (repairPrompt, sessionId) => baseQuery(repairPrompt, { ...finalOptions, sessionId })
     );
     return parser;
   }
 
+  /**
+   * Start a multi-turn conversation with this builder's current options.
+   * Each send() resumes the session of the previous turn.
+   */
+  conversation(): Conversation {
+    const options = this.prepareOptions();
+    const handlers = this.handlersFor(options);
+
+    return new Conversation(
+      {
+        // A resumed session already has the system prompt and role template
+        query: (prompt, sessionId) => baseQuery(
+          sessionId ? prompt : this.buildPrompt(prompt, options),
+          { ...options, sessionId }
+        ),
+        createParser: (generator) => new ResponseParser(
+          generator,
+          handlers,
+          this.logger,
+          (repairPrompt, sessionId) => baseQuery(repairPrompt, { ...options, sessionId })
+        )
+      },
+      { sessionId: options.sessionId, cwd: options.cwd }
+    );
+  }
+
   /**
    * Execute query and return raw async generator (for backward compatibility)
    */
-  async *queryRaw(prompt: string): AsyncGenerator<Message> {
-    // Apply MCP server permissions
-    const finalOptions = this.permissionManager.applyToOptions(this.options);
+  async *queryRaw(prompt: Prompt): AsyncGenerator<Message> {
+    const finalOptions = this.prepareOptions();
     
-    // Apply prompting template if available
-    let finalPrompt = prompt;
-    if (this.rolePromptingTemplate && this.roleTemplateVariables) {
-      const templatedPrompt = this.rolePromptingTemplate.replace(
-        /\$\{([^}]+)\}/g, 
-        (match, varName) => this.roleTemplateVariables![varName] || match
-      );
-      
-      if (finalOptions.systemPrompt) {
-        finalPrompt = `${finalOptions.systemPrompt}\n\n${templatedPrompt}\n\n${prompt}`;
-      } else {
-        finalPrompt = `${templatedPrompt}\n\n${prompt}`;
-      }
-    } else if (finalOptions.systemPrompt) {
-      finalPrompt = `${finalOptions.systemPrompt}\n\n${prompt}`;
-    }
+    const finalPrompt = this.buildPrompt(prompt, finalOptions);
     
     this.logger?.info('Starting query', { prompt: finalPrompt, options: finalOptions });
     
+    const handlers = this.handlersFor(finalOptions);
     for await (const message of baseQuery(finalPrompt, finalOptions)) {
       this.logger?.debug('Received message', { type: message.type });
       
       // Run handlers
-      for (const handler of this.messageHandlers) {
+      for (const handler of handlers) {
         try {
           handler(message);
         } catch (error) {
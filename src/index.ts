@@ -1,10 +1,10 @@
 import { InternalClient } from './_internal/client.js';
-import type { ClaudeCodeOptions, Message } from './types.js';
+import type { ClaudeCodeOptions, Message, Prompt } from './types.js';
 
 /**
  * Query Claude Code with a prompt and options.
  * 
- * @param prompt - The prompt to send to Claude Code
+ * @param prompt - The prompt to send to Claude Code (text, or content blocks for images and documents)
  * @param options - Configuration options for the query
  * @returns An async iterator that yields messages from Claude Code
  * 
@@ -37,7 +37,7 @@ import type { ClaudeCodeOptions, Message } from './types.js';
  * ```
  */
 export async function* query(
-  prompt: string,
+  prompt: Prompt,
   options?: ClaudeCodeOptions
 ): AsyncGenerator<Message> {
   const client = new InternalClient(prompt, options);
@@ -58,7 +58,31 @@ export { API_KEY_SAFETY_WARNING } from './environment.js';
 
 // Export new fluent API (backward compatible - original query function still available)
 export { claude, QueryBuilder } from './fluent.js';
-export { ResponseParser, type ToolExecution, type UsageStats } from './parser.js';
+export { ResponseParser, type ToolExecution, type UsageStats, type ResumeQuery } from './parser.js';
+export { validateJSONSchema } from './structured/json-schema.js';
+export { UsageTracker } from './usage/budget.js';
+export { getModelPricing, calculateCost, type BillableUsage } from './usage/pricing.js';
+export { UsageLedger } from './usage/ledger.js';
+export { tool, createSdkMcpServer, SdkMcpServer } from './mcp/sdk-server.js';
+export { Conversation, type ConversationTurn, type ConversationRunner } from './conversation.js';
+
+// Export transports
+export { InMemoryTransport, type InMemoryTransportOptions } from './transport/in-memory.js';
+export {
+  RecordingTransport,
+  ReplayTransport,
+  loadCassette,
+  replayCassette
+} from './transport/cassette.js';
+
+// Export warm CLI process pool
+export { CLIProcessPool } from './_internal/transport/process-pool.js';
+export { QueryScheduler } from './scheduler/query-scheduler.js';
+
+// Export long-lived multi-turn sessions and the local transcript store
+export { ClaudeSession } from './session/claude-session.js';
+export { SessionStore } from './session/store.js';
+
 export { 
   Logger, 
   LogLevel, 
@@ -77,6 +101,12 @@ export {
   // Token streaming
   createTokenStream,
   TokenStreamImpl,
+  createTokenStreamFactory,
+  ClaudeTokenStreamFactory,
+  ReplayTokenStreamImpl,
+  estimateTokens,
+  getTokenizer,
+  ApproximateTokenizer,
   // Per-call permissions
   createPermissionManager,
   ToolPermissionManager,
@@ -0,0 +1,102 @@
+/**
+ * Validation and `--mcp-config` serialization of MCP server definitions
+ */
+
+import type { MCPServer } from '../types.js';
+import { ValidationError } from '../errors.js';
+
+const SERVER_TYPES = ['stdio', 'sse', 'http'];
+
+// Warn about unnamed stdio servers once per process
+let warnedUnnamed = false;
+
+/**
+ * Describe what is wrong with a server's connection settings, if anything
+ */
+export function findMCPServerProblem(server: Record<string, unknown>): string | undefined {
+  const type = server.type ?? 'stdio';
+  if (typeof type !== 'string' || !SERVER_TYPES.includes(type)) {
+    return `unknown server type '${String(type)}' (expected stdio, sse or http)`;
+  }
+
+  if (type === 'stdio') {
+    if (typeof server.command !== 'string' || server.command === '') {
+      return 'stdio servers need a command';
+    }
+    if (server.url !== undefined) {
+      return 'stdio servers take a command, not a url';
+    }
+    if (server.args !== undefined && !(Array.isArray(server.args) && server.args.every(arg => typeof arg === 'string'))) {
+      return 'args must be an array of strings';
+    }
+    if (server.env !== undefined && !isStringRecord(server.env)) {
+      return 'env must map names to strings';
+    }
+    return undefined;
+  }
+
+  if (typeof server.url !== 'string') {
+    return `${type} servers need a url`;
+  }
+  let protocol: string;
+  try {
+    protocol = new URL(server.url).protocol;
+  } catch {
+    return `invalid url '${server.url}'`;
+  }
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    return `url must use http or https, not ${protocol}`;
+  }
+  if (server.command !== undefined) {
+    return `${type} servers take a url, not a command`;
+  }
+  if (server.headers !== undefined && !isStringRecord(server.headers)) {
+    return 'headers must map names to strings';
+  }
+  return undefined;
+}
+
+/**
+ * The `--mcp-config` JSON for servers, keyed by name as the CLI expects
+ */
+export function serializeMCPServers(servers: MCPServer[]): string {
+  const entries: Record<string, Omit<MCPServer, 'name'>> = {};
+
+  for (const [index, server] of servers.entries()) {
+    const field = `mcpServers[${index}]`;
+    const name = server.name ?? fallbackName(server, index);
+    if (typeof name !== 'string' || name === '') {
+      throw new ValidationError(`${field}: MCP servers need a name`, field, server);
+    }
+    if (name in entries) {
+      throw new ValidationError(`${field}: duplicate MCP server name '${name}'`, field, name);
+    }
+    const problem = findMCPServerProblem(server as unknown as Record<string, unknown>);
+    if (problem) {
+      throw new ValidationError(`${field} (${name}): ${problem}`, field, server);
+    }
+
+    const { name: _name, ...config } = server;
+    entries[name] = { ...config, type: config.type ?? 'stdio' };
+  }
+
+  return JSON.stringify({ mcpServers: entries });
+}
+
+// Stdio servers predate names; keep them working under a positional one
+function fallbackName(server: MCPServer, index: number): string | undefined {
+  if (server.type !== undefined && server.type !== 'stdio') return undefined;
+
+  if (!warnedUnnamed) {
+    warnedUnnamed = true;
+    console.warn('[Claude SDK] MCP servers without a name are deprecated; naming them server-<index> for now');
+  }
+  return `server-${index}`;
+}
+
+function isStringRecord(value: unknown): boolean {
+  return typeof value === 'object'
+    && value !== null
+    && !Array.isArray(value)
+    && Object.values(value).every(entry => typeof entry === 'string');
+}
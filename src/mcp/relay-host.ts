@@ -0,0 +1,167 @@
+/**
+ * Local socket host that serves MCP tool calls relayed from the CLI
+ */
+
+import { createServer, type Server, type Socket } from 'node:net';
+import { randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { basename, join } from 'node:path';
+import { createInterface } from 'node:readline';
+import type { CallToolResult, JSONSchema } from '../types.js';
+import { MCP_RELAY_SCRIPT, RELAY_SERVER_ENV, RELAY_SOCKET_ENV, RELAY_TOKEN_FILE_ENV } from './relay.js';
+
+// Tool as listed to the CLI
+export interface RelayedTool {
+  name: string;
+  description?: string;
+  inputSchema: JSONSchema;
+}
+
+// Server the relay presents to the CLI
+export interface RelayedServer {
+  name: string;
+  version?: string;
+  tools: RelayedTool[];
+}
+
+export type RelayCallHandler = (
+  name: string,
+  args: Record<string, unknown>,
+  signal: AbortSignal
+) => Promise<CallToolResult>;
+
+// One relayed tool call
+interface RelayRequest {
+  id: number;
+  token: string;
+  name: string;
+  arguments?: Record<string, unknown>;
+}
+
+/**
+ * Serves one MCP server's tools from the SDK process for the duration of a
+ * query. The CLI is given a stdio relay (see relay.ts) as the server; the
+ * relay forwards each tool call over a local socket to this host.
+ *
+ * Calls carry a per-host token, so other local processes that find the
+ * socket cannot invoke the tools. The token is handed to the relay in a
+ * file only the current user can read, never on a command line (the
+ * `--mcp-config` JSON is visible to every local user through ps), and the
+ * socket lives in the same private directory.
+ */
+export class McpRelayHost {
+  private sockets = new Set<Socket>();
+  private controller = new AbortController();
+
+  private constructor(
+    private server: Server,
+    private directory: string,
+    private socketPath: string,
+    private token: string,
+    private definition: RelayedServer,
+    private handler: RelayCallHandler
+  ) {
+    server.on('connection', (socket) => this.accept(socket));
+  }
+
+  /**
+   * Listen on a fresh local socket (a named pipe on Windows) in a new
+   * directory only the current user can access
+   */
+  static async start(definition: RelayedServer, handler: RelayCallHandler): Promise<McpRelayHost> {
+    const directory = await fs.mkdtemp(join(tmpdir(), `claude-sdk-mcp-${process.pid}-`));
+    await fs.chmod(directory, 0o700);
+    const token = randomUUID();
+    await fs.writeFile(join(directory, 'token'), token, { mode: 0o600 });
+
+    const socketPath = process.platform === 'win32'
+      ? `\\\\.\\pipe\\${basename(directory)}`
+      : join(directory, 'relay.sock');
+
+    const server = createServer();
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(socketPath, () => {
+          server.off('error', reject);
+          resolve();
+        });
+      });
+    } catch (error) {
+      await fs.rm(directory, { recursive: true, force: true });
+      throw error;
+    }
+    return new McpRelayHost(server, directory, socketPath, token, definition, handler);
+  }
+
+  /**
+   * `--mcp-config` value that registers the relay under the server's name
+   */
+  get mcpConfig(): string {
+    return JSON.stringify({
+      mcpServers: {
+        [this.definition.name]: {
+          type: 'stdio',
+          command: process.execPath,
+          args: ['-e', MCP_RELAY_SCRIPT],
+          env: {
+            [RELAY_SOCKET_ENV]: this.socketPath,
+            [RELAY_TOKEN_FILE_ENV]: join(this.directory, 'token'),
+            [RELAY_SERVER_ENV]: JSON.stringify(this.definition)
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Stop listening; handlers still running see an aborted signal
+   */
+  async close(): Promise<void> {
+    this.controller.abort();
+    for (const socket of this.sockets) socket.destroy();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+
+  private accept(socket: Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    // The relay going away is handled by 'close'
+    socket.on('error', () => undefined);
+
+    createInterface({ input: socket, crlfDelay: Infinity }).on('line', (line) => {
+      let request: RelayRequest;
+      try {
+        request = JSON.parse(line) as RelayRequest;
+      } catch {
+        return;
+      }
+      void this.call(request).then((result) => {
+        if (!socket.destroyed) {
+          socket.write(JSON.stringify({ id: request.id, result }) + '\n');
+        }
+      });
+    });
+  }
+
+  private async call(request: RelayRequest): Promise<CallToolResult> {
+    if (request.token !== this.token) {
+      return errorResult('Tool call was not authorized');
+    }
+
+    try {
+      return await this.handler(request.name, request.arguments ?? {}, this.controller.signal);
+    } catch (error) {
+      return errorResult((error as Error).message);
+    }
+  }
+}
+
+/**
+ * Failed tool call, reported to the model as text
+ */
+export function errorResult(message: string): CallToolResult {
+  return { content: [{ type: 'text', text: message }], isError: true };
+}
@@ -0,0 +1,120 @@
+/**
+ * Stdio MCP server that relays tool calls to handlers in the SDK process
+ */
+
+// Environment variables the relay reads its connection details from
+export const RELAY_SOCKET_ENV = 'CLAUDE_SDK_MCP_SOCKET';
+// Path of a file holding the token, which stays off the CLI's command line
+export const RELAY_TOKEN_FILE_ENV = 'CLAUDE_SDK_MCP_TOKEN_FILE';
+// JSON { name, version, tools: [{ name, description, inputSchema }] }
+export const RELAY_SERVER_ENV = 'CLAUDE_SDK_MCP_SERVER';
+
+/**
+ * Source of the relay, run by the CLI as `node -e <script>`. It answers the
+ * MCP handshake and lists the tools from its environment; each tool call is
+ * forwarded as a JSON line over a local socket to the McpRelayHost in the
+ * SDK process, and the host's CallToolResult is returned to the CLI.
+ *
+ * Kept as plain CommonJS without dependencies so it runs in any Node.js the
+ * CLI can start, independent of how the SDK was bundled.
+ */
+export const MCP_RELAY_SCRIPT = String.raw`
+'use strict';
+const fs = require('node:fs');
+const net = require('node:net');
+const readline = require('node:readline');
+
+const socketPath = process.env.${RELAY_SOCKET_ENV};
+const token = fs.readFileSync(process.env.${RELAY_TOKEN_FILE_ENV}, 'utf8').trim();
+const server = JSON.parse(process.env.${RELAY_SERVER_ENV} || '{"tools":[]}');
+const pending = new Map();
+let nextId = 1;
+let connection;
+
+function send(message) {
+  process.stdout.write(JSON.stringify(message) + '\n');
+}
+
+function failure(message) {
+  return { content: [{ type: 'text', text: message }], isError: true };
+}
+
+function settleAll(result) {
+  for (const settle of pending.values()) settle(result);
+  pending.clear();
+}
+
+function connect() {
+  if (connection) return connection;
+  connection = new Promise((resolve, reject) => {
+    const socket = net.createConnection(socketPath, () => resolve(socket));
+    socket.on('error', (error) => {
+      connection = undefined;
+      reject(error);
+      settleAll(failure('SDK tool host unavailable: ' + error.message));
+    });
+    socket.on('close', () => {
+      connection = undefined;
+      settleAll(failure('SDK tool host closed'));
+    });
+    readline.createInterface({ input: socket }).on('line', (line) => {
+      let reply;
+      try { reply = JSON.parse(line); } catch { return; }
+      const settle = pending.get(reply.id);
+      if (!settle) return;
+      pending.delete(reply.id);
+      settle(reply.result);
+    });
+  });
+  return connection;
+}
+
+async function callTool(name, args) {
+  try {
+    const socket = await connect();
+    const id = nextId++;
+    return await new Promise((resolve) => {
+      pending.set(id, resolve);
+      socket.write(JSON.stringify({ id, token, name, arguments: args || {} }) + '\n');
+    });
+  } catch (error) {
+    return failure('SDK tool host unavailable: ' + error.message);
+  }
+}
+
+async function handle(request) {
+  switch (request.method) {
+    case 'initialize':
+      return {
+        protocolVersion: (request.params && request.params.protocolVersion) || '2024-11-05',
+        capabilities: { tools: {} },
+        serverInfo: { name: server.name || 'claude-sdk-tools', version: server.version || '1.0.0' }
+      };
+    case 'ping':
+      return {};
+    case 'tools/list':
+      return { tools: server.tools };
+    case 'tools/call':
+      return callTool(request.params && request.params.name, request.params && request.params.arguments);
+    default: {
+      const error = new Error('Method not found: ' + request.method);
+      error.code = -32601;
+      throw error;
+    }
+  }
+}
+
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+  let request;
+  try { request = JSON.parse(line); } catch { return; }
+  // Notifications need no reply
+  if (request.id === undefined || request.id === null) return;
+
+  handle(request).then(
+    (result) => send({ jsonrpc: '2.0', id: request.id, result }),
+    (error) => send({ jsonrpc: '2.0', id: request.id, error: { code: error.code || -32603, message: error.message } })
+  );
+});
+
+process.stdin.on('end', () => process.exit(0));
+`;
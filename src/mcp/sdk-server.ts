@@ -0,0 +1,161 @@
+/**
+ * Custom tools defined in TypeScript, served to the CLI as MCP servers
+ */
+
+import type {
+  CallToolResult,
+  JSONSchema,
+  MCPServer,
+  SdkMcpServerOptions,
+  SdkTool,
+  ToolCallContext
+} from '../types.js';
+import { ValidationError } from '../errors.js';
+import { validateJSONSchema } from '../structured/json-schema.js';
+import { McpRelayHost, errorResult } from './relay-host.js';
+
+// MCP server and tool names the CLI accepts in mcp__<server>__<tool>
+const NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * An MCP server whose tools run in this process. Add it to a query with
+ * `withTools()` (or `withMCP()`); for each query the SDK serves the tools
+ * over a local relay and registers it with the CLI, and the tools are
+ * allowed without a permission prompt.
+ */
+export class SdkMcpServer {
+  readonly type = 'sdk';
+  readonly name: string;
+  readonly version: string;
+  readonly tools: readonly SdkTool[];
+
+  constructor(options: SdkMcpServerOptions) {
+    if (!NAME_PATTERN.test(options.name)) {
+      throw new ValidationError(
+        `Invalid MCP server name '${options.name}'; use letters, digits, '_' and '-'`,
+        'name',
+        options.name
+      );
+    }
+
+    const seen = new Set<string>();
+    for (const tool of options.tools) {
+      if (!NAME_PATTERN.test(tool.name)) {
+        throw new ValidationError(`Invalid tool name '${tool.name}'; use letters, digits, '_' and '-'`, 'tools', tool.name);
+      }
+      if (seen.has(tool.name)) {
+        throw new ValidationError(`Duplicate tool name '${tool.name}' in MCP server '${options.name}'`, 'tools', tool.name);
+      }
+      seen.add(tool.name);
+    }
+
+    this.name = options.name;
+    this.version = options.version ?? '1.0.0';
+    this.tools = [...options.tools];
+  }
+
+  /**
+   * Tool names as the model sees them (mcp__<server>__<tool>)
+   */
+  get toolNames(): string[] {
+    return this.tools.map(tool => `mcp__${this.name}__${tool.name}`);
+  }
+
+  /**
+   * Validate the input and run a tool's handler. Failures are returned as
+   * error results so the model can see what went wrong.
+   */
+  async callTool(name: string, input: Record<string, unknown>, context: ToolCallContext): Promise<CallToolResult> {
+    const tool = this.tools.find(candidate => candidate.name === name);
+    if (!tool) {
+      return errorResult(`Unknown tool '${name}'`);
+    }
+
+    const issues = validateJSONSchema(input, tool.inputSchema);
+    if (issues.length > 0) {
+      return errorResult(`Invalid input: ${issues.map(issue => `${issue.path} ${issue.message}`).join('; ')}`);
+    }
+
+    try {
+      const result = await tool.handler(input, context);
+      return typeof result === 'string' ? { content: [{ type: 'text', text: result }] } : result;
+    } catch (error) {
+      return errorResult(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Serve the tools for one query
+   */
+  start(): Promise<McpRelayHost> {
+    return McpRelayHost.start(
+      {
+        name: this.name,
+        version: this.version,
+        tools: this.tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema }))
+      },
+      (name, args, signal) => this.callTool(name, args, { signal })
+    );
+  }
+}
+
+/**
+ * Define a tool for createSdkMcpServer() or withTools()
+ *
+ * @example
+ * ```typescript
+ * const lookupCustomer = tool(
+ *   'lookup_customer',
+ *   'Find a customer by email in the CRM',
+ *   { type: 'object', properties: { email: { type: 'string' } }, required: ['email'] },
+ *   async ({ email }: { email: string }) => JSON.stringify(await crm.customers.findByEmail(email))
+ * );
+ *
+ * const answer = await claude()
+ *   .withTools(lookupCustomer)
+ *   .query('When did jane@example.com last place an order?')
+ *   .asText();
+ * ```
+ */
+export function tool<Input = Record<string, unknown>>(
+  name: string,
+  inputSchema: JSONSchema,
+  handler: SdkTool<Input>['handler']
+): SdkTool<Input>;
+export function tool<Input = Record<string, unknown>>(
+  name: string,
+  description: string,
+  inputSchema: JSONSchema,
+  handler: SdkTool<Input>['handler']
+): SdkTool<Input>;
+export function tool<Input = Record<string, unknown>>(
+  name: string,
+  descriptionOrSchema: string | JSONSchema,
+  schemaOrHandler: JSONSchema | SdkTool<Input>['handler'],
+  handler?: SdkTool<Input>['handler']
+): SdkTool<Input> {
+  if (typeof descriptionOrSchema === 'string') {
+    return { name, description: descriptionOrSchema, inputSchema: schemaOrHandler as JSONSchema, handler: handler! };
+  }
+  return { name, inputSchema: descriptionOrSchema, handler: schemaOrHandler as SdkTool<Input>['handler'] };
+}
+
+/**
+ * Group tools into an MCP server served from this process
+ *
+ * @example
+ * ```typescript
+ * const crm = createSdkMcpServer({ name: 'crm', tools: [lookupCustomer, listOrders] });
+ * await claude().withTools(crm).query('Summarize open orders for ACME').asText();
+ * ```
+ */
+export function createSdkMcpServer(options: SdkMcpServerOptions): SdkMcpServer {
+  return new SdkMcpServer(options);
+}
+
+/**
+ * Whether an mcpServers entry is served from this process
+ */
+export function isSdkMcpServer(server: MCPServer | SdkMcpServer): server is SdkMcpServer {
+  return 'type' in server && server.type === 'sdk';
+}
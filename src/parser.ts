@@ -1,5 +1,24 @@
-import type { Message, ToolUseBlock, ResultMessage } from './types.js';
+import type {
+  Message,
+  ContentBlock,
+  ImageBlock,
+  ToolUseBlock,
+  ResultMessage,
+  SystemInitMessage,
+  JSONSchema,
+  SchemaValidationIssue,
+  StructuredOutputOptions,
+  StructuredTypeGuard
+} from './types.js';
+import { isSystemInitMessage } from './types.js';
 import type { Logger } from './logger.js';
+import { StructuredOutputError } from './errors.js';
+import { validateJSONSchema } from './structured/json-schema.js';
+
+/**
+ * Sends a follow-up prompt in an existing session (used for repairs)
+ */
+export type ResumeQuery = (prompt: string, sessionId: string) => AsyncGenerator<Message>;
 
 /**
  * Response parser for extracting and transforming Claude messages
@@ -15,23 +34,110 @@ import type { Logger } from './logger.js';
  *   .query('Read all config files')
  *   .findToolResults('Read'); // Returns all Read tool results
  * ```
+ *
+ * The generator is read once and broadcast, so live iterators and the
+ * accessors above can be used on the same parser at the same time:
+ *
+ * ```typescript
+ * const parser = claude().query('Refactor utils.ts');
+ *
+ * const ui = (async () => {
+ *   for await (const text of parser.textStream()) render(text);
+ * })();
+ * const log = (async () => {
+ *   for await (const message of parser.messages()) logger.info(message.type);
+ * })();
+ *
+ * const usage = await parser.getUsage();
+ * await Promise.all([ui, log]);
+ * ```
  */
 export class ResponseParser {
-  private messages: Message[] = [];
+  private buffer: Message[] = [];
   private consumed = false;
+  private pumping?: Promise<void>;
+  private failure?: { error: unknown };
+  private waiters: Array<() => void> = [];
 
   constructor(
     private generator: AsyncGenerator<Message>,
     private handlers: Array<(message: Message) => void> = [],
-    private logger?: Logger
+    private logger?: Logger,
+    private resume?: ResumeQuery
   ) {}
 
+  /**
+   * Iterate over messages as they arrive. Every call returns an independent
+   * iterator that first replays the messages received so far; breaking out
+   * of it does not stop the query for other consumers.
+   */
+  async *messages(): AsyncGenerator<Message> {
+    this.startPump();
+
+    let index = 0;
+    while (true) {
+      while (index < this.buffer.length) {
+        yield this.buffer[index++]!;
+      }
+      if (this.consumed) {
+        if (this.failure) throw this.failure.error;
+        return;
+      }
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+  }
+
+  /**
+   * Iterate over assistant text as it arrives: text deltas when partial
+   * messages are enabled (withPartialMessages), otherwise whole text blocks
+   */
+  async *textStream(): AsyncGenerator<string> {
+    const streamedMessageIds = new Set<string>();
+    let streaming = false;
+
+    for await (const message of this.messages()) {
+      if (message.type === 'stream_event') {
+        streaming = true;
+        const { event } = message;
+        if (event.type === 'message_start') {
+          streamedMessageIds.add(event.message.id);
+        } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          yield event.delta.text;
+        }
+        continue;
+      }
+
+      if (message.type !== 'assistant') continue;
+      // Skip text already yielded from the message's deltas
+      if (message.message_id ? streamedMessageIds.has(message.message_id) : streaming) continue;
+      for (const block of message.content) {
+        if (block.type === 'text') {
+          yield block.text;
+        }
+      }
+    }
+  }
+
+  /**
+   * Iterate over tool calls as the assistant makes them
+   */
+  async *toolCalls(): AsyncGenerator<ToolUseBlock> {
+    for await (const message of this.messages()) {
+      if (message.type !== 'assistant') continue;
+      for (const block of message.content) {
+        if (block.type === 'tool_use') {
+          yield block;
+        }
+      }
+    }
+  }
+
   /**
    * Get all messages as an array (consumes the generator)
    */
   async asArray(): Promise<Message[]> {
     await this.consume();
-    return this.messages;
+    return this.buffer;
   }
 
   /**
@@ -41,7 +147,7 @@ export class ResponseParser {
     await this.consume();
     
     const texts: string[] = [];
-    for (const msg of this.messages) {
+    for (const msg of this.buffer) {
       if (msg.type === 'assistant') {
         for (const block of msg.content) {
           if (block.type === 'text') {
@@ -54,13 +160,65 @@ export class ResponseParser {
     return texts.join('\n');
   }
 
+  /**
+   * Get the extended thinking from assistant messages
+   */
+  async asThinking(): Promise<string> {
+    await this.consume();
+    
+    const thoughts: string[] = [];
+    for (const msg of this.buffer) {
+      if (msg.type === 'assistant') {
+        for (const block of msg.content) {
+          if (block.type === 'thinking') {
+            thoughts.push(block.thinking);
+          }
+        }
+      }
+    }
+    
+    return thoughts.join('\n');
+  }
+
+  /**
+   * Get all images, including those inside tool results
+   */
+  async getImages(): Promise<ImageBlock[]> {
+    await this.consume();
+    
+    const images: ImageBlock[] = [];
+    const collect = (blocks: ContentBlock[]) => {
+      for (const block of blocks) {
+        if (block.type === 'image') {
+          images.push(block);
+        } else if (block.type === 'tool_result' && Array.isArray(block.content)) {
+          for (const item of block.content) {
+            if (item.type === 'image') {
+              images.push(item);
+            }
+          }
+        }
+      }
+    };
+    
+    for (const msg of this.buffer) {
+      if (msg.type === 'assistant') {
+        collect(msg.content);
+      } else if (msg.type === 'user' && Array.isArray(msg.content)) {
+        collect(msg.content);
+      }
+    }
+    
+    return images;
+  }
+
   /**
    * Get the final result message content
    */
   async asResult(): Promise<string | null> {
     await this.consume();
     
-    const resultMsg = this.messages.findLast((msg): msg is ResultMessage => msg.type === 'result');
+    const resultMsg = this.buffer.findLast((msg): msg is ResultMessage => msg.type === 'result');
     return resultMsg?.content ?? null;
   }
 
@@ -73,21 +231,27 @@ export class ResponseParser {
     const executions: ToolExecution[] = [];
     const toolUses = new Map<string, ToolUseBlock>();
     
-    for (const msg of this.messages) {
+    for (const msg of this.buffer) {
+      // Tool uses come from the assistant; the CLI reports their results in user messages
+      let blocks: ContentBlock[] = [];
       if (msg.type === 'assistant') {
-        for (const block of msg.content) {
-          if (block.type === 'tool_use') {
-            toolUses.set(block.id, block);
-          } else if (block.type === 'tool_result') {
-            const toolUse = toolUses.get(block.tool_use_id);
-            if (toolUse) {
-              executions.push({
-                tool: toolUse.name,
-                input: toolUse.input,
-                result: block.content,
-                isError: block.is_error ?? false
-              });
-            }
+        blocks = msg.content;
+      } else if (msg.type === 'user' && Array.isArray(msg.content)) {
+        blocks = msg.content;
+      }
+
+      for (const block of blocks) {
+        if (block.type === 'tool_use') {
+          toolUses.set(block.id, block);
+        } else if (block.type === 'tool_result') {
+          const toolUse = toolUses.get(block.tool_use_id);
+          if (toolUse) {
+            executions.push({
+              tool: toolUse.name,
+              input: toolUse.input,
+              result: block.content,
+              isError: block.is_error ?? false
+            });
           }
         }
       }
@@ -119,33 +283,35 @@ export class ResponseParser {
    */
   async asJSON<T = unknown>(): Promise<T | null> {
     const text = await this.asText();
-    
-    // Try to find JSON in code blocks first
-    const codeBlockMatch = text.match(/```(?:json)?\n([\s\S]*?)\n```/);
-    if (codeBlockMatch) {
-      try {
-        return JSON.parse(codeBlockMatch[1] ?? '');
-      } catch (e) {
-        this.logger?.warn('Failed to parse JSON from code block', { error: e });
-      }
-    }
-    
-    // Try to parse the entire text as JSON
-    try {
-      return JSON.parse(text);
-    } catch {
-      // Try to find JSON-like content
-      const jsonMatch = text.match(/\{[\s\S]*\}|\[[\s\S]*\]/);
-      if (jsonMatch) {
-        try {
-          return JSON.parse(jsonMatch[0]);
-        } catch (e) {
-          this.logger?.warn('Failed to parse JSON from text', { error: e });
-        }
-      }
-    }
-    
-    return null;
+    const extracted = this.extractJSON(text);
+    return extracted.found ? extracted.value as T : null;
+  }
+
+  /**
+   * Parse the response as JSON and validate it against a JSON Schema or
+   * type guard. When validation fails, the same session is resumed with a
+   * corrective prompt (up to `maxRepairs` times) before throwing
+   * StructuredOutputError.
+   *
+   * @example
+   * ```typescript
+   * const todo = await claude()
+   *   .query('Return the next task as JSON with "title" and "priority" (1-5)')
+   *   .asStructured<{ title: string; priority: number }>({
+   *     type: 'object',
+   *     properties: {
+   *       title: { type: 'string' },
+   *       priority: { type: 'integer', minimum: 1, maximum: 5 }
+   *     },
+   *     required: ['title', 'priority']
+   *   });
+   * ```
+   */
+  async asStructured<T = unknown>(
+    schema: JSONSchema | StructuredTypeGuard<T>,
+    options: StructuredOutputOptions = {}
+  ): Promise<T> {
+    return this.attemptStructured(schema, options.maxRepairs ?? 2, 1);
   }
 
   /**
@@ -154,17 +320,8 @@ export class ResponseParser {
   async getUsage(): Promise<UsageStats | null> {
     await this.consume();
     
-    const resultMsg = this.messages.findLast((msg): msg is ResultMessage => msg.type === 'result');
-    if (!resultMsg?.usage) return null;
-    
-    return {
-      inputTokens: resultMsg.usage.input_tokens ?? 0,
-      outputTokens: resultMsg.usage.output_tokens ?? 0,
-      cacheCreationTokens: resultMsg.usage.cache_creation_input_tokens ?? 0,
-      cacheReadTokens: resultMsg.usage.cache_read_input_tokens ?? 0,
-      totalTokens: (resultMsg.usage.input_tokens ?? 0) + (resultMsg.usage.output_tokens ?? 0),
-      totalCost: resultMsg.cost?.total_cost ?? 0
-    };
+    const resultMsg = this.buffer.findLast((msg): msg is ResultMessage => msg.type === 'result');
+    return resultMsg ? usageFromResult(resultMsg) : null;
   }
 
   /**
@@ -174,7 +331,7 @@ export class ResponseParser {
     await this.consume();
 
     // Look for session_id on any message (CLI sets this on all messages)
-    for (const msg of this.messages) {
+    for (const msg of this.buffer) {
       if ('session_id' in msg && msg.session_id) {
         return msg.session_id;
       }
@@ -188,28 +345,21 @@ export class ResponseParser {
     return null;
   }
 
+  /**
+   * Get the init message describing the CLI environment (tools, model, MCP servers, cwd)
+   */
+  async getSystemInfo(): Promise<SystemInitMessage | null> {
+    await this.consume();
+    return this.buffer.find(isSystemInitMessage) ?? null;
+  }
+
   /**
    * Stream messages with a callback (doesn't consume for other methods)
    */
   async stream(callback: (message: Message) => void | Promise<void>): Promise<void> {
-    for await (const message of this.generator) {
-      // Run handlers
-      for (const handler of this.handlers) {
-        try {
-          handler(message);
-        } catch (error) {
-          this.logger?.error('Message handler error', { error });
-        }
-      }
-      
-      // Store message
-      this.messages.push(message);
-      
-      // Run callback
+    for await (const message of this.messages()) {
       await callback(message);
     }
-    
-    this.consumed = true;
   }
 
   /**
@@ -218,8 +368,8 @@ export class ResponseParser {
   async succeeded(): Promise<boolean> {
     await this.consume();
     
-    const resultMsg = this.messages.findLast((msg): msg is ResultMessage => msg.type === 'result');
-    if (!resultMsg) return false;
+    const resultMsg = this.buffer.findLast((msg): msg is ResultMessage => msg.type === 'result');
+    if (!resultMsg || resultMsg.is_error) return false;
     
     // Check if any tool execution failed
     const executions = await this.asToolExecutions();
@@ -237,7 +387,7 @@ export class ResponseParser {
     const errors: string[] = [];
     
     // Check system messages for errors
-    for (const msg of this.messages) {
+    for (const msg of this.buffer) {
       if (msg.type === 'system' && msg.subtype === 'error') {
         const errorMessage = msg.data && typeof msg.data === 'object' && 'message' in msg.data
           ? String(msg.data.message)
@@ -246,11 +396,17 @@ export class ResponseParser {
       }
     }
     
+    // Check the result message (e.g. error_max_turns, error_during_execution)
+    const resultMsg = this.buffer.findLast((msg): msg is ResultMessage => msg.type === 'result');
+    if (resultMsg?.is_error) {
+      errors.push(resultMsg.result || `Query failed: ${resultMsg.subtype ?? 'error'}`);
+    }
+    
     // Check tool results for errors
     const executions = await this.asToolExecutions();
     for (const exec of executions) {
       if (exec.isError) {
-        errors.push(`Tool ${exec.tool} failed: ${exec.result}`);
+        errors.push(`Tool ${exec.tool} failed: ${formatToolResult(exec.result)}`);
       }
     }
     
@@ -262,34 +418,128 @@ export class ResponseParser {
    */
   async transform<T>(transformer: (messages: Message[]) => T): Promise<T> {
     await this.consume();
-    return transformer(this.messages);
+    return transformer(this.buffer);
   }
 
   /**
-   * Consume the generator if not already consumed
+   * Validate this response; on failure, resume the session with a repair
+   * prompt and validate the reply
    */
-  private async consume(): Promise<void> {
-    if (this.consumed) return;
-    
-    this.logger?.debug('Consuming message generator');
+  private async attemptStructured<T>(
+    schema: JSONSchema | StructuredTypeGuard<T>,
+    maxRepairs: number,
+    attempt: number
+  ): Promise<T> {
+    const text = await this.asText();
+    const extracted = this.extractJSON(text);
+    const issues: SchemaValidationIssue[] = extracted.found
+      ? checkStructured(extracted.value, schema)
+      : [{ path: '$', message: 'response does not contain valid JSON' }];
+
+    if (issues.length === 0) {
+      return extracted.value as T;
+    }
+
+    const sessionId = await this.getSessionId();
+    if (attempt > maxRepairs || !this.resume || !sessionId) {
+      throw new StructuredOutputError(
+        `Response did not match the expected structure after ${attempt} attempt(s): ${formatIssues(issues)}`,
+        text,
+        issues,
+        attempt
+      );
+    }
+
+    this.logger?.warn('Structured output invalid, requesting a repair', { attempt, issues });
+    const repair = new ResponseParser(
+      this.resume(repairPrompt(issues, schema), sessionId),
+      this.handlers,
+      this.logger,
+      this.resume
+    );
+    return repair.attemptStructured(schema, maxRepairs, attempt + 1);
+  }
+
+  /**
+   * Find JSON in a code block, the whole text, or the first brace/bracket span
+   */
+  private extractJSON(text: string): { found: boolean; value?: unknown } {
+    // Try to find JSON in code blocks first
+    const codeBlockMatch = text.match(/```(?:json)?\n([\s\S]*?)\n```/);
+    if (codeBlockMatch) {
+      try {
+        return { found: true, value: JSON.parse(codeBlockMatch[1] ?? '') };
+      } catch (e) {
+        this.logger?.warn('Failed to parse JSON from code block', { error: e });
+      }
+    }
     
-    for await (const message of this.generator) {
-      this.logger?.debug('Received message', { type: message.type });
-      
-      // Run handlers
-      for (const handler of this.handlers) {
+    // Try to parse the entire text as JSON
+    try {
+      return { found: true, value: JSON.parse(text) };
+    } catch {
+      // Try to find JSON-like content
+      const jsonMatch = text.match(/\{[\s\S]*\}|\[[\s\S]*\]/);
+      if (jsonMatch) {
         try {
-          handler(message);
-        } catch (error) {
-          this.logger?.error('Message handler error', { error });
+          return { found: true, value: JSON.parse(jsonMatch[0]) };
+        } catch (e) {
+          this.logger?.warn('Failed to parse JSON from text', { error: e });
         }
       }
-      
-      this.messages.push(message);
     }
     
-    this.consumed = true;
-    this.logger?.debug('Message generator consumed', { messageCount: this.messages.length });
+    return { found: false };
+  }
+
+  /**
+   * Wait until the generator has been fully read
+   */
+  private async consume(): Promise<void> {
+    await this.startPump();
+    if (this.failure) throw this.failure.error;
+  }
+
+  /**
+   * Read the generator exactly once, buffering each message and waking
+   * the live iterators
+   */
+  private startPump(): Promise<void> {
+    this.pumping ??= (async () => {
+      this.logger?.debug('Consuming message generator');
+
+      try {
+        for await (const message of this.generator) {
+          this.logger?.debug('Received message', { type: message.type });
+
+          // Run handlers
+          for (const handler of this.handlers) {
+            try {
+              handler(message);
+            } catch (error) {
+              this.logger?.error('Message handler error', { error });
+            }
+          }
+
+          this.buffer.push(message);
+          this.notify();
+        }
+        this.logger?.debug('Message generator consumed', { messageCount: this.buffer.length });
+      } catch (error) {
+        // Kept for every consumer rather than rejecting the shared promise
+        this.failure = { error };
+      } finally {
+        this.consumed = true;
+        this.notify();
+      }
+    })();
+    return this.pumping;
+  }
+
+  private notify(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(wake => wake());
   }
 }
 
@@ -313,4 +563,53 @@ export interface UsageStats {
   cacheReadTokens: number;
   totalTokens: number;
   totalCost: number;
-}
\ No newline at end of file
+}
+
+/**
+ * Usage statistics reported by a result message (null if it has none)
+ */
+export function usageFromResult(resultMsg: ResultMessage): UsageStats | null {
+  if (!resultMsg.usage) return null;
+
+  return {
+    inputTokens: resultMsg.usage.input_tokens ?? 0,
+    outputTokens: resultMsg.usage.output_tokens ?? 0,
+    cacheCreationTokens: resultMsg.usage.cache_creation_input_tokens ?? 0,
+    cacheReadTokens: resultMsg.usage.cache_read_input_tokens ?? 0,
+    totalTokens: (resultMsg.usage.input_tokens ?? 0) + (resultMsg.usage.output_tokens ?? 0),
+    totalCost: resultMsg.cost?.total_cost ?? 0
+  };
+}
+
+function checkStructured<T>(value: unknown, schema: JSONSchema | StructuredTypeGuard<T>): SchemaValidationIssue[] {
+  if (typeof schema === 'function') {
+    return schema(value) ? [] : [{ path: '$', message: 'value was rejected by the type guard' }];
+  }
+  return validateJSONSchema(value, schema);
+}
+
+function formatIssues(issues: SchemaValidationIssue[]): string {
+  return issues.map(issue => `${issue.path} ${issue.message}`).join('; ');
+}
+
+function repairPrompt<T>(issues: SchemaValidationIssue[], schema: JSONSchema | StructuredTypeGuard<T>): string {
+  const lines = [
+    'Your previous response was not valid for the required JSON structure:',
+    ...issues.map(issue => `- ${issue.path} ${issue.message}`)
+  ];
+  if (typeof schema !== 'function') {
+    lines.push('', 'It must match this JSON Schema:', JSON.stringify(schema, null, 2));
+  }
+  lines.push('', 'Reply with only the corrected JSON, without any explanation.');
+  return lines.join('\n');
+}
+
+// Tool result content is either a string or a list of content blocks
+function formatToolResult(result: unknown): string {
+  if (Array.isArray(result)) {
+    return result
+      .map(block => (block && typeof block === 'object' && 'text' in block ? String(block.text) : JSON.stringify(block)))
+      .join('\n');
+  }
+  return String(result);
+}
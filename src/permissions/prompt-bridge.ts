@@ -0,0 +1,154 @@
+/**
+ * Local bridge that answers the CLI's permission prompts from SDK callbacks
+ */
+
+import type {
+  ClaudeCodeOptions,
+  Message,
+  PermissionCheckResult,
+  PermissionMiddleware,
+  PermissionRequestHandler,
+  Prompt,
+  QueryContext,
+  ToolName
+} from '../types.js';
+import { McpRelayHost, type RelayedTool } from '../mcp/relay-host.js';
+
+// MCP server and tool the CLI asks for permission
+const SERVER_NAME = 'sdk_permissions';
+const APPROVE_TOOL: RelayedTool = {
+  name: 'approve',
+  description: 'Ask the SDK application whether a tool use is allowed',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      tool_name: { type: 'string' },
+      input: { type: 'object' },
+      tool_use_id: { type: 'string' }
+    },
+    required: ['tool_name', 'input']
+  }
+};
+
+// Decision format the CLI expects from a permission prompt tool
+type PromptDecision =
+  | { behavior: 'allow'; updatedInput: Record<string, unknown> }
+  | { behavior: 'deny'; message: string };
+
+/**
+ * Answers the CLI's permission prompts for one query. The CLI is started
+ * with a relayed MCP server as its `--permission-prompt-tool`; each prompt
+ * reaches this bridge, which asks the handler and returns its decision.
+ */
+export class PermissionPromptBridge {
+  readonly toolName = `mcp__${SERVER_NAME}__${APPROVE_TOOL.name}`;
+
+  private constructor(private host: McpRelayHost) {}
+
+  static async start(handler: PermissionRequestHandler, context: QueryContext): Promise<PermissionPromptBridge> {
+    const host = await McpRelayHost.start({ name: SERVER_NAME, tools: [APPROVE_TOOL] }, async (_name, args, signal) => {
+      const decision = await decide(handler, context, args, signal);
+      return { content: [{ type: 'text', text: JSON.stringify(decision) }] };
+    });
+    return new PermissionPromptBridge(host);
+  }
+
+  /**
+   * `--mcp-config` value that registers the relay
+   */
+  get mcpConfig(): string {
+    return this.host.mcpConfig;
+  }
+
+  /**
+   * Stop listening; unanswered requests see an aborted signal and are denied
+   */
+  close(): Promise<void> {
+    return this.host.close();
+  }
+}
+
+async function decide(
+  handler: PermissionRequestHandler,
+  context: QueryContext,
+  args: Record<string, unknown>,
+  signal: AbortSignal
+): Promise<PromptDecision> {
+  const input = (args.input ?? {}) as Record<string, unknown>;
+  try {
+    const result = await handler({
+      toolName: String(args.tool_name),
+      input,
+      toolUseId: typeof args.tool_use_id === 'string' ? args.tool_use_id : undefined,
+      context,
+      signal
+    });
+    return toDecision(result, input);
+  } catch (error) {
+    return { behavior: 'deny', message: `Permission handler failed: ${(error as Error).message}` };
+  }
+}
+
+function toDecision(result: PermissionCheckResult | boolean, input: Record<string, unknown>): PromptDecision {
+  const check = typeof result === 'boolean' ? { allowed: result } : result;
+  if (!check.allowed) {
+    return { behavior: 'deny', message: check.denialReason ?? 'Denied by the permission handler' };
+  }
+
+  const updatedInput = check.modifiedInput && typeof check.modifiedInput === 'object'
+    ? check.modifiedInput as Record<string, unknown>
+    : input;
+  return { behavior: 'allow', updatedInput };
+}
+
+/**
+ * The permission handler of a query, adapting permissionMiddleware when
+ * no onPermissionRequest handler is set
+ */
+export function resolvePermissionHandler(options: ClaudeCodeOptions): PermissionRequestHandler | undefined {
+  if (options.onPermissionRequest) return options.onPermissionRequest;
+
+  const middleware = options.permissionMiddleware;
+  if (!middleware) return undefined;
+  return (request) => middleware.beforeToolExecution(request.toolName as ToolName, request.input, request.context);
+}
+
+/**
+ * Context passed to permission handlers and middleware
+ */
+export function createQueryContext(prompt: Prompt, options: ClaudeCodeOptions): QueryContext {
+  const text = typeof prompt === 'string'
+    ? prompt
+    : prompt.flatMap(block => (block.type === 'text' ? [block.text] : [])).join('\n');
+  return { prompt: text, model: options.model, timestamp: Date.now() };
+}
+
+/**
+ * Message handler that reports each tool result to the middleware's
+ * afterToolExecution, matched to its tool_use by id
+ */
+export function observeToolResults(
+  middleware: PermissionMiddleware,
+  context: QueryContext,
+  onError: (error: unknown) => void
+): (message: Message) => void {
+  const toolNames = new Map<string, string>();
+
+  return (message) => {
+    if (message.type === 'assistant') {
+      for (const block of message.content) {
+        if (block.type === 'tool_use') toolNames.set(block.id, block.name);
+      }
+      return;
+    }
+
+    if (message.type !== 'user' || typeof message.content === 'string') return;
+    for (const block of message.content) {
+      if (block.type !== 'tool_result') continue;
+      const toolName = toolNames.get(block.tool_use_id);
+      if (!toolName) continue;
+      toolNames.delete(block.tool_use_id);
+      middleware.afterToolExecution(toolName as ToolName, block, context).catch(onError);
+    }
+  };
+}
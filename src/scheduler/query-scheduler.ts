@@ -0,0 +1,255 @@
+/**
+ * Concurrency-limited query scheduler with priorities
+ */
+
+import { AbortError } from '../errors.js';
+import type {
+  JobHandle,
+  JobStatus,
+  QueryPriority,
+  QuerySchedulerOptions,
+  ScheduleOptions,
+  SchedulerMetrics
+} from '../types/scheduler.js';
+
+const PRIORITIES: QueryPriority[] = ['high', 'normal', 'low'];
+
+interface QueuedJob {
+  id: string;
+  priority: QueryPriority;
+  key: string;
+  enqueuedAt: number;
+  status: JobStatus;
+  start: () => void;
+  cancelQueued: (error: AbortError) => void;
+}
+
+/**
+ * Limits how many queries run at once. Jobs wait in per-priority FIFO queues;
+ * a job whose key is at its limit is skipped (not blocking the jobs behind it)
+ * until a slot for that key frees up.
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new QueryScheduler({ maxConcurrency: 4, defaultKeyLimit: 1 });
+ *
+ * const job = scheduler.submit(
+ *   (signal) => claude().withSignal(signal).query('Summarize the repo').asText(),
+ *   { priority: 'high', key: 'tenant-a' }
+ * );
+ * const text = await job.result;
+ *
+ * // Or route every query from a builder through the scheduler
+ * claude().withScheduler(scheduler, { key: 'tenant-b' }).query('Hello');
+ * ```
+ */
+export class QueryScheduler {
+  private queues: Record<QueryPriority, QueuedJob[]> = { high: [], normal: [], low: [] };
+  private runningByKey = new Map<string, number>();
+  private running = 0;
+  private nextId = 1;
+  private maxConcurrency: number;
+  private stats = { started: 0, cancelled: 0, totalWaitMs: 0, maxWaitMs: 0 };
+
+  constructor(private options: QuerySchedulerOptions = {}) {
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? 4);
+  }
+
+  /**
+   * Queue a task. The task receives an AbortSignal that fires when the job
+   * is cancelled while running.
+   */
+  submit<T>(task: (signal: AbortSignal) => Promise<T>, options: ScheduleOptions = {}): JobHandle<T> {
+    const controller = new AbortController();
+    let resolveResult!: (value: T) => void;
+    let rejectResult!: (error: unknown) => void;
+    const result = new Promise<T>((resolve, reject) => {
+      resolveResult = resolve;
+      rejectResult = reject;
+    });
+    // Avoid unhandled rejections for cancelled jobs nobody awaits
+    result.catch(() => {});
+
+    const onAbort = () => cancel(String(options.signal?.reason ?? 'Job aborted'));
+
+    const job = this.enqueue(options, (release) => {
+      Promise.resolve().then(() => task(controller.signal)).then(
+        (value) => {
+          if (job.status === 'running') job.status = 'completed';
+          resolveResult(value);
+        },
+        (error) => {
+          if (job.status === 'running') job.status = 'failed';
+          rejectResult(error);
+        }
+      ).finally(() => {
+        options.signal?.removeEventListener('abort', onAbort);
+        release();
+      });
+    }, (error) => {
+      options.signal?.removeEventListener('abort', onAbort);
+      rejectResult(error);
+    });
+
+    const cancel = (reason?: string): void => {
+      if (job.status === 'queued') {
+        this.cancelQueued(job, reason);
+      } else if (job.status === 'running') {
+        job.status = 'cancelled';
+        this.stats.cancelled++;
+        controller.abort(reason);
+      }
+    };
+
+    // Removed again once the job settles
+    if (job.status === 'queued' || job.status === 'running') {
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    return {
+      id: job.id,
+      get status() {
+        return job.status;
+      },
+      result,
+      cancel
+    };
+  }
+
+  /**
+   * Wait for a slot and return a function that releases it. Used to run
+   * streaming queries under the scheduler's limits.
+   */
+  acquire(options: ScheduleOptions = {}): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => this.cancelQueued(job, 'Query was aborted via AbortSignal');
+
+      const job = this.enqueue(options, (release) => {
+        options.signal?.removeEventListener('abort', onAbort);
+        resolve(release);
+      }, (error) => {
+        options.signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      });
+
+      // The job may have started (or been rejected) synchronously
+      if (job.status === 'queued') {
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+      }
+    });
+  }
+
+  /**
+   * Get queue depth and wait-time metrics
+   */
+  getMetrics(): SchedulerMetrics {
+    const queuedByPriority = {
+      high: this.queues.high.length,
+      normal: this.queues.normal.length,
+      low: this.queues.low.length
+    };
+
+    return {
+      running: this.running,
+      queued: queuedByPriority.high + queuedByPriority.normal + queuedByPriority.low,
+      queuedByPriority,
+      runningByKey: Object.fromEntries(this.runningByKey),
+      started: this.stats.started,
+      cancelled: this.stats.cancelled,
+      averageWaitMs: this.stats.started > 0 ? this.stats.totalWaitMs / this.stats.started : 0,
+      maxWaitMs: this.stats.maxWaitMs
+    };
+  }
+
+  private enqueue(
+    options: ScheduleOptions,
+    onStart: (release: () => void) => void,
+    onCancel: (error: AbortError) => void
+  ): QueuedJob {
+    const job: QueuedJob = {
+      id: `job-${this.nextId++}`,
+      priority: options.priority ?? 'normal',
+      key: options.key ?? 'default',
+      enqueuedAt: Date.now(),
+      status: 'queued',
+      start: () => {
+        let released = false;
+        onStart(() => {
+          if (released) return;
+          released = true;
+          this.finish(job);
+        });
+      },
+      cancelQueued: onCancel
+    };
+
+    if (options.signal?.aborted) {
+      job.status = 'cancelled';
+      this.stats.cancelled++;
+      onCancel(new AbortError('Operation aborted before starting'));
+      return job;
+    }
+
+    this.queues[job.priority].push(job);
+    this.dispatch();
+    return job;
+  }
+
+  private cancelQueued(job: QueuedJob, reason?: string): void {
+    if (job.status !== 'queued') return;
+
+    const queue = this.queues[job.priority];
+    const index = queue.indexOf(job);
+    if (index !== -1) {
+      queue.splice(index, 1);
+    }
+
+    job.status = 'cancelled';
+    this.stats.cancelled++;
+    job.cancelQueued(new AbortError(reason ?? 'Job was cancelled'));
+  }
+
+  private dispatch(): void {
+    while (this.running < this.maxConcurrency) {
+      const job = this.nextRunnable();
+      if (!job) return;
+
+      const waitMs = Date.now() - job.enqueuedAt;
+      this.stats.started++;
+      this.stats.totalWaitMs += waitMs;
+      this.stats.maxWaitMs = Math.max(this.stats.maxWaitMs, waitMs);
+
+      this.running++;
+      this.runningByKey.set(job.key, (this.runningByKey.get(job.key) ?? 0) + 1);
+      job.status = 'running';
+      job.start();
+    }
+  }
+
+  private nextRunnable(): QueuedJob | undefined {
+    for (const priority of PRIORITIES) {
+      const queue = this.queues[priority];
+      const index = queue.findIndex(job => this.hasKeyCapacity(job.key));
+      if (index !== -1) {
+        return queue.splice(index, 1)[0];
+      }
+    }
+    return undefined;
+  }
+
+  private hasKeyCapacity(key: string): boolean {
+    const limit = this.options.keyLimits?.[key] ?? this.options.defaultKeyLimit;
+    return limit === undefined || (this.runningByKey.get(key) ?? 0) < limit;
+  }
+
+  private finish(job: QueuedJob): void {
+    this.running--;
+    const count = (this.runningByKey.get(job.key) ?? 1) - 1;
+    if (count > 0) {
+      this.runningByKey.set(job.key, count);
+    } else {
+      this.runningByKey.delete(job.key);
+    }
+    this.dispatch();
+  }
+}
@@ -0,0 +1,176 @@
+import { SubprocessCLITransport } from '../_internal/transport/subprocess-cli.js';
+import { InternalClient } from '../_internal/client.js';
+import { createUserInput } from '../_internal/user-input.js';
+import { applyEnvironmentOptions } from '../_internal/options-merger.js';
+import { loadSafeEnvironmentOptions } from '../environment.js';
+import { ClaudeSDKError, CLIConnectionError } from '../errors.js';
+import { resolvePromptContent } from '../_internal/prompt-content.js';
+import type { ClaudeCodeOptions, CLIOutput, Message, Prompt } from '../types.js';
+
+/**
+ * Long-lived multi-turn conversation backed by a single CLI process.
+ *
+ * The CLI runs with `--input-format stream-json`, so stdin stays open and each
+ * `send()` writes one user message into the same process. Messages are yielded
+ * until the turn's result message arrives.
+ *
+ * @example
+ * ```typescript
+ * const session = new ClaudeSession({ model: 'sonnet' });
+ *
+ * for await (const message of session.send('Remember the number 42')) {
+ *   console.log(message.type);
+ * }
+ * for await (const message of session.send('Which number was it?')) {
+ *   console.log(message.type);
+ * }
+ *
+ * await session.close();
+ * ```
+ */
+export class ClaudeSession {
+  private options: ClaudeCodeOptions;
+  private transport?: SubprocessCLITransport;
+  private outputs?: AsyncGenerator<CLIOutput>;
+  private connecting?: Promise<void>;
+  private _sessionId?: string;
+  private turnInProgress = false;
+  private unfinishedTurn = false;
+  private closed = false;
+  // The CLI process ended on its own; close() still has to clean up
+  private exited = false;
+
+  constructor(options: ClaudeCodeOptions = {}) {
+    const envOptions = loadSafeEnvironmentOptions();
+    this.options = applyEnvironmentOptions(options, envOptions);
+    this._sessionId = options.sessionId;
+  }
+
+  /**
+   * Session ID reported by the CLI (available after the first message)
+   */
+  get sessionId(): string | undefined {
+    return this._sessionId;
+  }
+
+  /**
+   * Whether the underlying CLI process has been started
+   */
+  get isConnected(): boolean {
+    return this.transport !== undefined && !this.closed && !this.exited;
+  }
+
+  /**
+   * Start the CLI process. Called automatically by the first send().
+   */
+  async connect(): Promise<void> {
+    if (this.closed) {
+      throw new ClaudeSDKError('Session is closed');
+    }
+    if (this.exited) {
+      throw new CLIConnectionError('Claude Code CLI of this session has exited', this.transport?.getStderr());
+    }
+    if (!this.connecting) {
+      this.connecting = (async () => {
+        const transport = new SubprocessCLITransport('', this.options, 'stream-json');
+        try {
+          await transport.connect();
+        } catch (error) {
+          // Stop whatever started (tool hosts, permission bridge) and let a later send() retry
+          await transport.disconnect();
+          this.connecting = undefined;
+          throw error;
+        }
+        this.transport = transport;
+        this.outputs = transport.receiveMessages();
+      })();
+    }
+    await this.connecting;
+  }
+
+  /**
+   * Send a user message (text or content blocks) and yield the messages
+   * of the resulting turn
+   */
+  async *send(prompt: Prompt): AsyncGenerator<Message> {
+    if (this.turnInProgress) {
+      throw new ClaudeSDKError('A turn is already in progress; wait for it to finish before sending');
+    }
+    this.turnInProgress = true;
+
+    try {
+      const content = Array.isArray(prompt) ? await resolvePromptContent(prompt) : prompt;
+      await this.connect();
+
+      // A previous consumer stopped reading mid-turn; discard the rest of that turn
+      if (this.unfinishedTurn) {
+        for await (const _message of this.readTurn()) {
+          // Drain
+        }
+      }
+
+      this.transport!.sendMessage(createUserInput(content, this._sessionId));
+      yield* this.readTurn();
+    } finally {
+      this.turnInProgress = false;
+    }
+  }
+
+  /**
+   * End the session and terminate the CLI process
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+
+    if (this.transport) {
+      this.transport.endInput();
+      await this.outputs?.return(undefined);
+      await this.transport.disconnect();
+    }
+
+    this.transport = undefined;
+    this.outputs = undefined;
+  }
+
+  private async *readTurn(): AsyncGenerator<Message> {
+    this.unfinishedTurn = true;
+
+    while (true) {
+      let result: IteratorResult<CLIOutput>;
+      try {
+        result = await this.outputs!.next();
+      } catch (error) {
+        // Exit, timeout and abort errors end the output stream for good
+        this.exited = true;
+        throw error;
+      }
+
+      const { value: output, done } = result;
+      if (done) {
+        this.exited = true;
+        throw new CLIConnectionError(
+          'Claude Code CLI exited before the turn completed',
+          this.transport?.getStderr()
+        );
+      }
+
+      if ('session_id' in output && output.session_id) {
+        this._sessionId = output.session_id;
+      }
+
+      const message = InternalClient.parseMessage(output);
+      if (!message) continue;
+
+      if (message.type === 'result') {
+        this.unfinishedTurn = false;
+      }
+
+      yield message;
+
+      if (message.type === 'result') {
+        return;
+      }
+    }
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * Browse, load, continue and fork the session transcripts the Claude Code
+ * CLI keeps under ~/.claude/projects
+ */
+
+import { createReadStream, promises as fs } from 'node:fs';
+import { randomUUID } from 'node:crypto';
+import { homedir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { createInterface } from 'node:readline';
+import { InternalClient } from '../_internal/client.js';
+import { claude, type QueryBuilder } from '../fluent.js';
+import { ClaudeSDKError } from '../errors.js';
+import type {
+  CLIOutput,
+  ContentBlock,
+  ForkSessionOptions,
+  Message,
+  SessionInfo,
+  SessionStoreOptions
+} from '../types.js';
+
+// Session ids are file names, so nothing that could leave the project directory
+const SESSION_ID_PATTERN = /^[\w-]+$/;
+
+// One line of a CLI transcript (only the fields the store uses)
+interface TranscriptEntry {
+  type: string;
+  sessionId?: string;
+  uuid?: string;
+  timestamp?: string;
+  cwd?: string;
+  gitBranch?: string;
+  isSidechain?: boolean;
+  isMeta?: boolean;
+  summary?: string;
+  message?: {
+    role?: string;
+    content: string | ContentBlock[];
+  };
+}
+
+/**
+ * Lists the local CLI transcripts for a project directory and turns them
+ * back into typed messages or resumable queries.
+ *
+ * @example
+ * ```typescript
+ * const store = new SessionStore({ cwd: '/srv/app' });
+ *
+ * for (const session of await store.list()) {
+ *   console.log(session.sessionId, session.updatedAt, session.firstPrompt);
+ * }
+ *
+ * const history = await store.load(sessionId);
+ * const fork = await store.fork(sessionId, { turns: 2 });
+ * const answer = await store.resume(fork.sessionId).query('Try another approach').asText();
+ * ```
+ */
+export class SessionStore {
+  readonly cwd: string;
+  private claudeDir: string;
+
+  constructor(options: SessionStoreOptions = {}) {
+    this.cwd = resolve(options.cwd ?? process.cwd());
+    this.claudeDir = options.claudeDir ?? process.env.CLAUDE_CONFIG_DIR ?? join(homedir(), '.claude');
+  }
+
+  /**
+   * Directory holding this project's transcripts. The CLI names it after
+   * the cwd with every non-alphanumeric character replaced by '-'.
+   */
+  get projectDir(): string {
+    return join(this.claudeDir, 'projects', this.cwd.replace(/[^a-zA-Z0-9]/g, '-'));
+  }
+
+  /**
+   * List sessions, most recently updated first
+   */
+  async list(): Promise<SessionInfo[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.projectDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const sessions: SessionInfo[] = [];
+    for (const file of files) {
+      if (!file.endsWith('.jsonl')) continue;
+      // Other files the user keeps next to transcripts (notes.backup.jsonl)
+      const sessionId = file.slice(0, -'.jsonl'.length);
+      if (!SESSION_ID_PATTERN.test(sessionId)) continue;
+      const info = await this.readInfo(sessionId);
+      if (info) sessions.push(info);
+    }
+
+    return sessions.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  /**
+   * Get a single session's summary, or null if it doesn't exist
+   */
+  async get(sessionId: string): Promise<SessionInfo | null> {
+    return this.readInfo(sessionId);
+  }
+
+  /**
+   * Most recently updated session, or null if there are none
+   */
+  async latest(): Promise<SessionInfo | null> {
+    const sessions = await this.list();
+    return sessions[0] ?? null;
+  }
+
+  /**
+   * Load a session's main conversation as messages
+   */
+  async load(sessionId: string): Promise<Message[]> {
+    const messages: Message[] = [];
+    for await (const entry of this.readEntries(this.requirePath(sessionId))) {
+      if (!isConversationEntry(entry)) continue;
+
+      const message = InternalClient.parseMessage({
+        type: entry.type,
+        message: entry.message,
+        session_id: entry.sessionId
+      } as CLIOutput);
+      if (message) messages.push(message);
+    }
+    return messages;
+  }
+
+  /**
+   * Query builder that continues the most recent session (--continue)
+   */
+  continueLatest(): QueryBuilder {
+    return claude().inDirectory(this.cwd).continueLatestSession();
+  }
+
+  /**
+   * Query builder that resumes the given session (--resume)
+   */
+  resume(sessionId: string): QueryBuilder {
+    return claude().inDirectory(this.cwd).withSessionId(sessionId);
+  }
+
+  /**
+   * Copy a session under a new id so it can be resumed without changing
+   * the original. Optionally keep only the first `turns` user turns.
+   */
+  async fork(sessionId: string, options: ForkSessionOptions = {}): Promise<SessionInfo> {
+    const source = this.requirePath(sessionId);
+    const newSessionId = randomUUID();
+    const lines: string[] = [];
+    let turns = 0;
+
+    for await (const entry of this.readEntries(source)) {
+      if (options.turns !== undefined) {
+        // Summaries describe the whole conversation, not the truncated copy
+        if (entry.type === 'summary') continue;
+        if (isConversationEntry(entry) && isUserPrompt(entry) && ++turns > options.turns) break;
+      }
+      lines.push(JSON.stringify(entry.sessionId ? { ...entry, sessionId: newSessionId } : entry));
+    }
+
+    await fs.writeFile(this.transcriptPath(newSessionId), lines.length > 0 ? `${lines.join('\n')}\n` : '', { flag: 'wx' });
+
+    const info = await this.readInfo(newSessionId);
+    if (!info) {
+      throw new ClaudeSDKError(`Failed to fork session ${sessionId}`);
+    }
+    return info;
+  }
+
+  private transcriptPath(sessionId: string): string {
+    return join(this.projectDir, `${sessionId}.jsonl`);
+  }
+
+  private requirePath(sessionId: string): string {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      throw new ClaudeSDKError(`Invalid session id: ${sessionId}`);
+    }
+    return this.transcriptPath(sessionId);
+  }
+
+  private async readInfo(sessionId: string): Promise<SessionInfo | null> {
+    const path = this.requirePath(sessionId);
+    let stats;
+    try {
+      stats = await fs.stat(path);
+    } catch {
+      return null;
+    }
+
+    const info: SessionInfo = {
+      sessionId,
+      path,
+      createdAt: stats.birthtime,
+      updatedAt: stats.mtime,
+      messageCount: 0,
+      turnCount: 0
+    };
+    let first: Date | undefined;
+    let last: Date | undefined;
+
+    for await (const entry of this.readEntries(path)) {
+      if (entry.type === 'summary' && entry.summary) {
+        info.summary = entry.summary;
+        continue;
+      }
+      if (entry.timestamp) {
+        const time = new Date(entry.timestamp);
+        first ??= time;
+        last = time;
+      }
+      info.cwd ??= entry.cwd;
+      info.gitBranch ??= entry.gitBranch;
+
+      if (!isConversationEntry(entry)) continue;
+      info.messageCount++;
+      if (isUserPrompt(entry)) {
+        info.turnCount++;
+        info.firstPrompt ??= promptText(entry.message!.content);
+      }
+    }
+
+    if (first) info.createdAt = first;
+    if (last) info.updatedAt = last;
+    return info;
+  }
+
+  private async *readEntries(path: string): AsyncGenerator<TranscriptEntry> {
+    const rl = createInterface({
+      input: createReadStream(path, { encoding: 'utf-8' }),
+      crlfDelay: Infinity
+    });
+
+    try {
+      for await (const line of rl) {
+        const trimmedLine = line.trim();
+        if (!trimmedLine) continue;
+        let entry: TranscriptEntry;
+        try {
+          entry = JSON.parse(trimmedLine) as TranscriptEntry;
+        } catch {
+          // Skip partially written lines (the CLI may still be appending)
+          continue;
+        }
+        yield entry;
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new ClaudeSDKError(`Session not found: ${path}`);
+      }
+      throw error;
+    } finally {
+      rl.close();
+    }
+  }
+}
+
+// User and assistant messages of the main conversation (no sub-agents or meta entries)
+function isConversationEntry(entry: TranscriptEntry): boolean {
+  return (entry.type === 'user' || entry.type === 'assistant')
+    && entry.message !== undefined
+    && !entry.isSidechain
+    && !entry.isMeta;
+}
+
+// A user message typed by a person rather than tool results fed back to the model
+function isUserPrompt(entry: TranscriptEntry): boolean {
+  if (entry.type !== 'user' || !entry.message) return false;
+  const { content } = entry.message;
+  return typeof content === 'string' || content.some(block => block.type !== 'tool_result');
+}
+
+function promptText(content: string | ContentBlock[]): string {
+  if (typeof content === 'string') return content;
+  return content
+    .filter((block): block is Extract<ContentBlock, { type: 'text' }> => block.type === 'text')
+    .map(block => block.text)
+    .join('\n');
+}
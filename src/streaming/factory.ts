@@ -0,0 +1,70 @@
+/**
+ * Factory for live, text-chunk and replayed token streams
+ */
+
+import type {
+  TokenChunk,
+  TokenStream,
+  TokenStreamFactory,
+  ReplayTokenStream,
+  StreamOptions
+} from '../types/streaming.js';
+import type { Message, StreamEventMessage } from '../types.js';
+import { TokenStreamImpl } from './token-stream.js';
+import { ReplayTokenStreamImpl } from './replay.js';
+
+/**
+ * Builds token streams from query messages, arbitrary text chunks or
+ * recorded tokens.
+ *
+ * @example
+ * ```typescript
+ * const factory = createTokenStreamFactory();
+ *
+ * // Record a live run...
+ * const live = factory.fromMessages(claude().withPartialMessages().queryRaw('Explain closures'));
+ * for await (const chunk of live.tokens()) render(chunk.token);
+ * const recording = live.getSnapshot();
+ *
+ * // ...and replay it later at double speed
+ * const replay = factory.fromRecording(recording);
+ * replay.getController().setSpeed(2);
+ * for await (const chunk of replay.tokens()) render(chunk.token);
+ * ```
+ */
+export class ClaudeTokenStreamFactory implements TokenStreamFactory {
+  fromMessages(messages: AsyncGenerator<Message>, options?: StreamOptions): TokenStream {
+    return new TokenStreamImpl(messages, options);
+  }
+
+  /**
+   * Each chunk is emitted as one text token, with the stream's buffering,
+   * throttling and pattern options applied
+   */
+  fromTextChunks(chunks: AsyncGenerator<string>, options?: StreamOptions): TokenStream {
+    return new TokenStreamImpl(textChunksAsMessages(chunks), options);
+  }
+
+  /**
+   * Replay tokens with their recorded timing; throttleMs sets a minimum gap,
+   * and the pattern and buffering options apply as to a live stream
+   */
+  fromRecording(tokens: TokenChunk[], options?: StreamOptions): ReplayTokenStream {
+    return new ReplayTokenStreamImpl(tokens, options);
+  }
+}
+
+// Present text chunks as the text deltas of a partial message
+async function* textChunksAsMessages(chunks: AsyncGenerator<string>): AsyncGenerator<Message> {
+  for await (const text of chunks) {
+    yield {
+      type: 'stream_event',
+      event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } }
+    } satisfies StreamEventMessage;
+  }
+}
+
+// Export factory function
+export function createTokenStreamFactory(): TokenStreamFactory {
+  return new ClaudeTokenStreamFactory();
+}
@@ -0,0 +1,307 @@
+/**
+ * Replay recorded token streams with seekable, speed-adjustable playback
+ */
+
+import type {
+  TokenChunk,
+  EnhancedStreamController,
+  ReplayTokenStream,
+  StreamMetrics,
+  StreamEvent,
+  StreamEventHandler,
+  StreamOptions
+} from '../types/streaming.js';
+import { StreamAbortedError, ValidationError } from '../errors.js';
+import { StreamControllerImpl, PATTERN_WINDOW_SIZE, validateStreamOptions } from './token-stream.js';
+
+// Playback operations the controller delegates to its stream
+interface ReplayPlayer {
+  readonly position: number;
+  readonly length: number;
+  seek(position: number): void;
+  setSpeed(multiplier: number): void;
+}
+
+/**
+ * Plays back recorded tokens with their original timing (scaled by the
+ * playback speed). Seeking moves the play position without yielding the
+ * skipped tokens and emits a 'seek' event; getSnapshot() always holds the
+ * tokens before the play position (the latest `bufferSize` of them), so a
+ * UI can re-render from it.
+ *
+ * Abort and pause patterns apply as in a live stream: they are matched
+ * against the text played since the last seek, and the matching token is
+ * held back (pause) or never played (abort).
+ *
+ * Once playback has finished, calling tokens() again after rewind()
+ * continues from the new position.
+ */
+export class ReplayTokenStreamImpl implements ReplayTokenStream {
+  private controller: ReplayStreamController;
+  private recording: TokenChunk[];
+  private cursor = 0;
+  private speed = 1;
+  // Index of the last yielded token, to detect seeks between tokens
+  private lastPlayed = -1;
+  // Text played since the last seek, for pattern triggers
+  private textWindow = '';
+  private wake?: () => void;
+  private metrics: StreamMetrics;
+  private completionPromise: Promise<void>;
+  private completionResolve?: () => void;
+  private completionReject?: (error: Error) => void;
+  private eventHandlers = new Map<StreamEvent, Set<StreamEventHandler>>();
+  private startTime: number;
+
+  constructor(recording: TokenChunk[], private options: StreamOptions = {}) {
+    validateStreamOptions(options);
+    this.recording = [...recording];
+    this.startTime = Date.now();
+    this.metrics = {
+      tokensEmitted: 0,
+      duration: 0,
+      state: 'active',
+      averageTokensPerSecond: 0,
+      bytesReceived: 0,
+      lastTokenTime: undefined,
+      pauseCount: 0,
+      totalPauseDuration: 0
+    };
+
+    this.controller = new ReplayStreamController(this);
+    // Cut short the wait for the next token so the change takes effect
+    this.controller.on('pause', () => this.wakeUp());
+    this.controller.on('abort', () => this.wakeUp());
+
+    this.completionPromise = new Promise((resolve, reject) => {
+      this.completionResolve = resolve;
+      this.completionReject = reject;
+    });
+    // Errors also reach the token iterator; don't report them as unhandled
+    this.completionPromise.catch(() => undefined);
+  }
+
+  get position(): number {
+    return this.cursor;
+  }
+
+  get length(): number {
+    return this.recording.length;
+  }
+
+  async *tokens(): AsyncGenerator<TokenChunk> {
+    try {
+      while (this.cursor < this.recording.length) {
+        await this.controller.checkPause();
+        if (this.controller.isAborted) {
+          throw new StreamAbortedError(this.controller.abortReason, this.cursor, this.getSnapshot());
+        }
+
+        const index = this.cursor;
+        // Skipped to the end while paused
+        if (index >= this.recording.length) break;
+        await this.waitFor(this.delayBefore(index));
+        // Seeked, paused or aborted while waiting
+        if (this.cursor !== index || this.controller.isPaused || this.controller.isAborted) continue;
+
+        const chunk = this.recording[index]!;
+        if (chunk.metadata?.kind !== 'thinking') {
+          await this.applyPatterns(chunk.token);
+          // Seeked or aborted while paused by a pattern
+          if (this.cursor !== index || this.controller.isAborted) continue;
+        }
+        this.cursor++;
+        this.lastPlayed = index;
+
+        this.metrics.tokensEmitted++;
+        this.metrics.bytesReceived = (this.metrics.bytesReceived || 0) + new TextEncoder().encode(chunk.token).length;
+        this.metrics.lastTokenTime = Date.now();
+        this.emit('token', chunk);
+
+        yield chunk;
+      }
+
+      this.metrics.state = 'completed';
+      this.emit('complete', this.metrics.state);
+      if (this.completionResolve) this.completionResolve();
+    } catch (error) {
+      this.metrics.state = this.controller.isAborted ? 'aborted' : 'error';
+      this.emit('error', error);
+      if (this.completionReject) this.completionReject(error as Error);
+      throw error;
+    }
+  }
+
+  getController(): EnhancedStreamController {
+    return this.controller;
+  }
+
+  getSnapshot(): TokenChunk[] {
+    const { bufferSize } = this.options;
+    const start = bufferSize === undefined ? 0 : Math.max(0, this.cursor - bufferSize);
+    return this.recording.slice(start, this.cursor);
+  }
+
+  getMetrics(): StreamMetrics {
+    this.updateMetrics();
+    return { ...this.metrics };
+  }
+
+  async waitForCompletion(): Promise<void> {
+    return this.completionPromise;
+  }
+
+  on(event: StreamEvent, handler: StreamEventHandler): void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, new Set());
+    }
+    this.eventHandlers.get(event)!.add(handler);
+  }
+
+  off(event: StreamEvent, handler: StreamEventHandler): void {
+    this.eventHandlers.get(event)?.delete(handler);
+  }
+
+  seek(position: number): void {
+    this.cursor = Math.min(Math.max(position, 0), this.recording.length);
+    this.textWindow = '';
+    if (this.metrics.state === 'completed' && this.cursor < this.recording.length) {
+      this.metrics.state = 'active';
+    }
+    this.emit('seek', this.cursor);
+    this.wakeUp();
+  }
+
+  setSpeed(multiplier: number): void {
+    this.speed = multiplier;
+    this.wakeUp();
+  }
+
+  /**
+   * Recorded gap before a token, scaled by speed (none right after a seek)
+   */
+  private delayBefore(index: number): number {
+    const previous = this.recording[index - 1];
+    const current = this.recording[index];
+    if (!previous || !current || this.lastPlayed !== index - 1) return 0;
+
+    const gap = Math.max(0, current.timestamp - previous.timestamp) / this.speed;
+    return Math.max(gap, this.options.throttleMs ?? 0);
+  }
+
+  /**
+   * Match abort and pause patterns against the text played so far plus the
+   * next token; a pause waits here until resumed
+   */
+  private async applyPatterns(token: string): Promise<void> {
+    const { abortPatterns = [], pausePatterns = [] } = this.options;
+    if (abortPatterns.length === 0 && pausePatterns.length === 0) return;
+
+    this.textWindow = (this.textWindow + token).slice(-PATTERN_WINDOW_SIZE);
+
+    // search() ignores the lastIndex of global/sticky patterns
+    const abortMatch = abortPatterns.find(pattern => this.textWindow.search(pattern) !== -1);
+    if (abortMatch) {
+      const reason = `matched abort pattern ${abortMatch}`;
+      this.controller.abort(reason);
+      this.emit('abort', 'aborted', reason);
+      return;
+    }
+
+    const pauseMatch = pausePatterns.find(pattern => this.textWindow.search(pattern) !== -1);
+    if (pauseMatch) {
+      const reason = `matched pause pattern ${pauseMatch}`;
+      // Start afresh so the same match doesn't pause again after resume()
+      this.textWindow = '';
+      this.controller.pause(reason);
+      this.emit('pause', 'paused', reason);
+      await this.controller.checkPause();
+    }
+  }
+
+  private waitFor(ms: number): Promise<void> {
+    if (ms <= 0) return Promise.resolve();
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.wake = undefined;
+        resolve();
+      }, ms);
+      this.wake = () => {
+        clearTimeout(timer);
+        this.wake = undefined;
+        resolve();
+      };
+    });
+  }
+
+  private wakeUp(): void {
+    this.wake?.();
+  }
+
+  private updateMetrics(): void {
+    this.metrics.duration = Date.now() - this.startTime;
+    if (this.metrics.tokensEmitted > 0 && this.metrics.duration > 0) {
+      this.metrics.averageTokensPerSecond = this.metrics.tokensEmitted / (this.metrics.duration / 1000);
+    }
+    this.metrics.pauseCount = this.controller.getPauseCount();
+    this.metrics.totalPauseDuration = this.controller.getTotalPauseDuration();
+  }
+
+  private emit(event: StreamEvent, data?: unknown, reason?: string): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      for (const handler of handlers) {
+        try {
+          (handler as (data: unknown, reason?: string) => void)(data, reason);
+        } catch {
+          // Error in ${event} handler - silently continue
+        }
+      }
+    }
+
+    if (['token', 'seek', 'complete', 'error'].includes(event)) {
+      this.emit('metrics', this.getMetrics());
+    }
+  }
+}
+
+/**
+ * Stream controller with playback speed and seeking for replays
+ */
+class ReplayStreamController extends StreamControllerImpl implements EnhancedStreamController {
+  constructor(private player: ReplayPlayer) {
+    super();
+  }
+
+  setSpeed(multiplier: number): void {
+    if (!Number.isFinite(multiplier) || multiplier <= 0) {
+      throw new ValidationError('Playback speed must be a positive number', 'multiplier', multiplier);
+    }
+    this.player.setSpeed(multiplier);
+  }
+
+  skipToEnd(): void {
+    this.player.seek(this.player.length);
+    // A paused replay would otherwise never reach its end
+    this.resume();
+  }
+
+  rewind(position: number): void {
+    if (!Number.isInteger(position) || position < 0 || position > this.player.position) {
+      throw new ValidationError(
+        `Cannot rewind to position ${position}; playback is at ${this.player.position}`,
+        'position',
+        position
+      );
+    }
+    this.player.seek(position);
+  }
+
+  fastForward(tokens: number): void {
+    if (!Number.isInteger(tokens) || tokens < 0) {
+      throw new ValidationError('Fast forward count must be a non-negative integer', 'tokens', tokens);
+    }
+    this.player.seek(this.player.position + tokens);
+  }
+}
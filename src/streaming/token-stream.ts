@@ -9,9 +9,33 @@ import type {
   StreamMetrics,
   StreamState,
   StreamEvent,
-  StreamEventHandler
+  StreamEventHandler,
+  StreamOptions,
+  TokenKind
 } from '../types/streaming.js';
-import type { Message, AssistantMessage, TextBlock } from '../types.js';
+import type { Message, AssistantMessage } from '../types.js';
+import { isSystemInitMessage } from '../types.js';
+import { StreamAbortedError, ValidationError } from '../errors.js';
+import { getTokenizer, type ApproximateTokenizer } from './tokenizer.js';
+
+// Characters of recent text that abort/pause patterns are matched against
+export const PATTERN_WINDOW_SIZE = 1024;
+
+/**
+ * Reject stream options that cannot be honoured (shared by live and replayed streams)
+ */
+export function validateStreamOptions(options: StreamOptions): void {
+  if (options.includeTokenProbabilities) {
+    throw new ValidationError(
+      'includeTokenProbabilities is not supported: the Claude Code CLI does not report token probabilities',
+      'includeTokenProbabilities',
+      options.includeTokenProbabilities
+    );
+  }
+  if (options.bufferSize !== undefined && (!Number.isInteger(options.bufferSize) || options.bufferSize < 0)) {
+    throw new ValidationError('bufferSize must be a non-negative integer', 'bufferSize', options.bufferSize);
+  }
+}
 
 export class TokenStreamImpl implements TokenStream {
   private controller: StreamControllerImpl;
@@ -24,9 +48,18 @@ export class TokenStreamImpl implements TokenStream {
   private completionReject?: (error: Error) => void;
   private eventHandlers = new Map<StreamEvent, Set<StreamEventHandler>>();
   private startTime: number;
+  private options: StreamOptions;
+  private tokenizer: ApproximateTokenizer;
+  // Recent text tokens, for pattern triggers
+  private textWindow = '';
+  private lastEmitTime?: number;
   
-  constructor(messageGenerator: AsyncGenerator<Message>) {
+  constructor(messageGenerator: AsyncGenerator<Message>, options: StreamOptions = {}) {
+    validateStreamOptions(options);
+    
     this.messageGenerator = messageGenerator;
+    this.options = options;
+    this.tokenizer = getTokenizer(options.model);
     this.controller = new StreamControllerImpl();
     this.startTime = Date.now();
     this.metrics = {
@@ -44,6 +77,8 @@ export class TokenStreamImpl implements TokenStream {
       this.completionResolve = resolve;
       this.completionReject = reject;
     });
+    // Errors also reach the token iterator; don't report them as unhandled
+    this.completionPromise.catch(() => undefined);
   }
   
   async *tokens(): AsyncGenerator<TokenChunk> {
@@ -60,64 +95,69 @@ export class TokenStreamImpl implements TokenStream {
   
   private async *createTokenGenerator(): AsyncGenerator<TokenChunk> {
     try {
-      let currentTextBlock: string = '';
+      // Previous block text per kind, so repeated snapshots only emit new tokens
+      const previousText: Record<TokenKind, string> = { text: '', thinking: '' };
+      // Messages already emitted from their stream events
+      const streamedMessageIds = new Set<string>();
+      let streaming = false;
+      let messageId: string | undefined;
       
       for await (const message of this.messageGenerator) {
         // Check if paused or aborted
         await this.controller.checkPause();
         if (this.controller.isAborted) {
-          throw new Error('Stream aborted');
+          throw this.abortError();
+        }
+        
+        // Without an explicit model, tokenize for the model the CLI reports
+        if (isSystemInitMessage(message) && message.model && !this.options.model) {
+          this.tokenizer = getTokenizer(message.model);
+          continue;
+        }
+        
+        // Partial messages (includePartialMessages): emit each delta as it arrives
+        if (message.type === 'stream_event') {
+          streaming = true;
+          const { event } = message;
+          
+          if (event.type === 'message_start') {
+            messageId = event.message.id;
+            streamedMessageIds.add(messageId);
+          } else if (event.type === 'content_block_delta') {
+            const { delta } = event;
+            if (delta.type === 'text_delta' && delta.text) {
+              yield* this.emitToken(delta.text, 'text', messageId, event.index, this.tokenizer.estimateTokens(delta.text));
+            } else if (delta.type === 'thinking_delta' && delta.thinking) {
+              yield* this.emitToken(delta.thinking, 'thinking', messageId, event.index, this.tokenizer.estimateTokens(delta.thinking));
+            }
+          }
+          continue;
         }
         
         // Process assistant messages for text content
         if (message.type === 'assistant') {
           const assistantMessage = message as AssistantMessage;
           
-          for (const block of assistantMessage.content) {
-            await this.controller.checkPause();
-            if (this.controller.isAborted) {
-              throw new Error('Stream aborted');
-            }
-            
-            if (block.type === 'text') {
-              const textBlock = block as TextBlock;
-              const text = textBlock.text;
+          // Already emitted from its stream events
+          const alreadyStreamed = assistantMessage.message_id
+            ? streamedMessageIds.has(assistantMessage.message_id)
+            : streaming;
+          if (alreadyStreamed) continue;
+          
+          for (const [blockIndex, block] of assistantMessage.content.entries()) {
+            if (block.type === 'text' || block.type === 'thinking') {
+              const kind: TokenKind = block.type;
+              const text = block.type === 'text' ? block.text : block.thinking;
               
-              // Split into tokens (simple word-based tokenization for now)
-              // In production, this would use proper tokenization
-              const tokens = this.tokenizeText(text, currentTextBlock);
+              // Without partial messages only whole blocks arrive, so split
+              // them into approximate model tokens
+              const tokens = this.tokenizeText(text, previousText[kind]);
               
               for (const token of tokens) {
-                await this.controller.checkPause();
-                if (this.controller.isAborted) {
-                  throw new Error('Stream aborted');
-                }
-                
-                const chunk: TokenChunk = {
-                  token,
-                  timestamp: Date.now(),
-                  metadata: {
-                    messageId: `msg-${Date.now()}`,
-                    blockIndex: 0,
-                    position: this.metrics.tokensEmitted
-                  }
-                };
-                
-                this.snapshot.push(chunk);
-                this.metrics.tokensEmitted++;
-                this.metrics.bytesReceived = (this.metrics.bytesReceived || 0) + new TextEncoder().encode(token).length;
-                this.metrics.lastTokenTime = Date.now();
-                
-                // Update metrics
-                this.updateMetrics();
-                
-                // Emit token event
-                this.emit('token', chunk);
-                
-                yield chunk;
+                yield* this.emitToken(token, kind, assistantMessage.message_id, blockIndex, 1);
               }
               
-              currentTextBlock = text;
+              previousText[kind] = text;
             }
           }
         }
@@ -128,7 +168,7 @@ export class TokenStreamImpl implements TokenStream {
       this.emit('complete', this.metrics.state);
       if (this.completionResolve) this.completionResolve();
     } catch (error) {
-      this.metrics.state = 'error';
+      this.metrics.state = this.controller.isAborted ? 'aborted' : 'error';
       this.updateMetrics();
       this.emit('error', error);
       if (this.completionReject) this.completionReject(error as Error);
@@ -136,33 +176,110 @@ export class TokenStreamImpl implements TokenStream {
     }
   }
   
-  private tokenizeText(text: string, previousText: string): string[] {
-    // Simple token extraction that preserves word boundaries and punctuation
-    const tokens: string[] = [];
+  private async *emitToken(
+    token: string,
+    kind: TokenKind,
+    messageId: string | undefined,
+    blockIndex: number,
+    // Estimated model tokens in this chunk
+    tokenCount: number
+  ): AsyncGenerator<TokenChunk> {
+    await this.controller.checkPause();
+    if (this.controller.isAborted) {
+      throw this.abortError();
+    }
     
-    // If we have previous text, find the difference
-    if (previousText && text.startsWith(previousText)) {
-      const newText = text.substring(previousText.length);
-      if (newText) {
-        // Split on word boundaries but keep delimiters
-        const parts = newText.split(/(\s+|[.,!?;:])/);
-        for (const part of parts) {
-          if (part) {
-            tokens.push(part);
-          }
-        }
+    // Arrival time of the token at the SDK
+    const timestamp = Date.now();
+    const chunk: TokenChunk = {
+      token,
+      timestamp,
+      metadata: {
+        kind,
+        messageId,
+        blockIndex,
+        position: this.metrics.tokensEmitted
       }
-    } else {
-      // Process entire text
-      const parts = text.split(/(\s+|[.,!?;:])/);
-      for (const part of parts) {
-        if (part) {
-          tokens.push(part);
-        }
+    };
+    
+    // Abort before the matching token is emitted; pause holds it back
+    if (kind === 'text') {
+      await this.applyPatterns(token);
+    }
+    
+    if (this.options.throttleMs) {
+      const wait = (this.lastEmitTime ?? 0) + this.options.throttleMs - Date.now();
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+      await this.controller.checkPause();
+      if (this.controller.isAborted) {
+        throw this.abortError();
       }
     }
+    this.lastEmitTime = Date.now();
+    
+    this.snapshot.push(chunk);
+    if (this.options.bufferSize !== undefined && this.snapshot.length > this.options.bufferSize) {
+      this.snapshot.splice(0, this.snapshot.length - this.options.bufferSize);
+    }
+    this.metrics.tokensEmitted += tokenCount;
+    this.metrics.bytesReceived = (this.metrics.bytesReceived || 0) + new TextEncoder().encode(token).length;
+    this.metrics.firstTokenTime ??= timestamp;
+    this.metrics.timeToFirstToken ??= timestamp - this.startTime;
+    this.metrics.lastTokenTime = timestamp;
+    
+    // Update metrics
+    this.updateMetrics();
+    
+    // Emit token event
+    this.emit('token', chunk);
     
-    return tokens;
+    yield chunk;
+  }
+  
+  /**
+   * Match abort and pause patterns against the rolling text window
+   */
+  private async applyPatterns(token: string): Promise<void> {
+    const { abortPatterns = [], pausePatterns = [] } = this.options;
+    if (abortPatterns.length === 0 && pausePatterns.length === 0) return;
+    
+    this.textWindow = (this.textWindow + token).slice(-PATTERN_WINDOW_SIZE);
+    
+    // search() ignores the lastIndex of global/sticky patterns
+    const abortMatch = abortPatterns.find(pattern => this.textWindow.search(pattern) !== -1);
+    if (abortMatch) {
+      const reason = `matched abort pattern ${abortMatch}`;
+      this.controller.abort(reason);
+      this.emit('abort', 'aborted', reason);
+      throw this.abortError();
+    }
+    
+    const pauseMatch = pausePatterns.find(pattern => this.textWindow.search(pattern) !== -1);
+    if (pauseMatch) {
+      const reason = `matched pause pattern ${pauseMatch}`;
+      // Start afresh so the same match doesn't pause again after resume()
+      this.textWindow = '';
+      this.controller.pause(reason);
+      this.emit('pause', 'paused', reason);
+      await this.controller.checkPause();
+      if (this.controller.isAborted) {
+        throw this.abortError();
+      }
+    }
+  }
+  
+  private abortError(): StreamAbortedError {
+    return new StreamAbortedError(this.controller.abortReason, this.metrics.tokensEmitted, this.getSnapshot());
+  }
+  
+  private tokenizeText(text: string, previousText: string): string[] {
+    // Only tokenize what was added since the previous snapshot of the block
+    const newText = previousText && text.startsWith(previousText)
+      ? text.substring(previousText.length)
+      : text;
+    return this.tokenizer.split(newText);
   }
   
   private updateMetrics(): void {
@@ -204,12 +321,12 @@ export class TokenStreamImpl implements TokenStream {
     this.eventHandlers.get(event)?.delete(handler);
   }
   
-  private emit(event: StreamEvent, data?: unknown): void {
+  private emit(event: StreamEvent, data?: unknown, reason?: string): void {
     const handlers = this.eventHandlers.get(event);
     if (handlers) {
       for (const handler of handlers) {
         try {
-          handler(data as any);
+          (handler as (data: unknown, reason?: string) => void)(data, reason);
         } catch (error) {
           // Error in ${event} handler - silently continue
         }
@@ -223,19 +340,21 @@ export class TokenStreamImpl implements TokenStream {
   }
 }
 
-class StreamControllerImpl implements StreamController {
+export class StreamControllerImpl implements StreamController {
   private state: StreamState = 'active';
   private pausePromise?: Promise<void>;
   private pauseResolve?: () => void;
   private listeners: Map<string, Set<(...args: unknown[]) => void>> = new Map();
   private pauseStartTime?: number;
   private _abortReason?: string;
+  private _pauseReason?: string;
   private pauseCount = 0;
   private totalPauseDuration = 0;
   
-  pause(): void {
+  pause(reason?: string): void {
     if (this.state === 'active') {
       this.state = 'paused';
+      this._pauseReason = reason;
       this.pauseStartTime = Date.now();
       this.pauseCount++;
       this.pausePromise = new Promise(resolve => {
@@ -288,6 +407,10 @@ class StreamControllerImpl implements StreamController {
     return this._abortReason;
   }
   
+  get pauseReason(): string | undefined {
+    return this._pauseReason;
+  }
+  
   getPauseCount(): number {
     return this.pauseCount;
   }
@@ -332,6 +455,6 @@ class StreamControllerImpl implements StreamController {
 }
 
 // Export factory function
-export function createTokenStream(messageGenerator: AsyncGenerator<Message>): TokenStream {
-  return new TokenStreamImpl(messageGenerator);
+export function createTokenStream(messageGenerator: AsyncGenerator<Message>, options?: StreamOptions): TokenStream {
+  return new TokenStreamImpl(messageGenerator, options);
 }
\ No newline at end of file
@@ -0,0 +1,184 @@
+/**
+ * Approximate, model-aware tokenization and token estimation
+ */
+
+import { readFileSync } from 'node:fs';
+import type { TokenChunk, Tokenizer, TokenEstimateContext } from '../types/streaming.js';
+import type { Prompt, PromptBlock, PromptDocument } from '../types.js';
+import { ValidationError } from '../errors.js';
+import { decodeStringData } from '../_internal/prompt-content.js';
+
+// Average letters per token in the part of a long word beyond its first
+// token. Anthropic doesn't publish its tokenizers, so there are no reference
+// counts to tell model families apart; every model gets the same estimate.
+const CHARS_PER_WORD_TOKEN = 4;
+
+// Common words up to this length are a single token
+const SINGLE_TOKEN_WORD_LENGTH = 7;
+
+// The API downsizes images to about 1.15 megapixels, roughly 1600 tokens
+const MAX_IMAGE_TOKENS = 1600;
+// Extracted text plus the rendered page image
+const TOKENS_PER_PDF_PAGE = 2000;
+
+const CJK = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}';
+
+// CJK characters, words, digit groups, punctuation pairs, whitespace runs
+const SEGMENT_PATTERN = new RegExp(
+  [
+    `[${CJK}]`,
+    `\\s?(?:(?![${CJK}])[\\p{L}\\p{M}])+`,
+    '\\s?\\p{N}{1,3}',
+    '\\s?[^\\s\\p{L}\\p{M}\\p{N}]{1,2}',
+    '\\s+'
+  ].join('|'),
+  'gu'
+);
+
+/**
+ * Splits text into approximate tokens for Claude models. Counts are
+ * estimates, the same for every model, suitable for sizing requests and
+ * stream metrics but not for billing; the API's usage figures are
+ * authoritative.
+ *
+ * @example
+ * ```typescript
+ * const tokenizer = getTokenizer('claude-sonnet-4-20250514');
+ * tokenizer.estimateTokens('Hello, world!'); // 4
+ * ```
+ */
+export class ApproximateTokenizer implements Tokenizer {
+  constructor(readonly model: string = 'default') {}
+
+  tokenize(text: string): TokenChunk[] {
+    const timestamp = Date.now();
+    return this.split(text).map((token, position) => ({
+      token,
+      timestamp,
+      metadata: { kind: 'text', position }
+    }));
+  }
+
+  estimateTokens(text: string): number {
+    return this.split(text).length;
+  }
+
+  /**
+   * Split text into token-sized pieces that join back into the original text
+   */
+  split(text: string): string[] {
+    const pieces: string[] = [];
+    for (const [segment] of text.matchAll(SEGMENT_PATTERN)) {
+      const letters = segment.trimStart();
+      const count = /^\p{L}/u.test(letters) && letters.length > SINGLE_TOKEN_WORD_LENGTH
+        ? 1 + Math.ceil((letters.length - SINGLE_TOKEN_WORD_LENGTH) / CHARS_PER_WORD_TOKEN)
+        : 1;
+
+      if (count === 1) {
+        pieces.push(segment);
+        continue;
+      }
+
+      // Long words span several tokens; split them evenly into that many pieces
+      for (let index = 0; index < count; index++) {
+        pieces.push(segment.slice(Math.floor(index * segment.length / count), Math.floor((index + 1) * segment.length / count)));
+      }
+    }
+    return pieces;
+  }
+}
+
+const tokenizers = new Map<string, ApproximateTokenizer>();
+
+/**
+ * Tokenizer for a model name or alias (e.g. 'sonnet', 'claude-3-5-haiku-latest')
+ */
+export function getTokenizer(model?: string): ApproximateTokenizer {
+  const key = model ?? 'default';
+  let tokenizer = tokenizers.get(key);
+  if (!tokenizer) {
+    tokenizer = new ApproximateTokenizer(key);
+    tokenizers.set(key, tokenizer);
+  }
+  return tokenizer;
+}
+
+/**
+ * Estimate the input tokens a prompt will use, including the system prompt
+ * and context from `context`. The CLI's own system prompt and tool
+ * definitions are not included.
+ *
+ * Images count as the maximum after the API's downscaling (about 1600
+ * tokens) and PDFs as about 2000 tokens per page.
+ *
+ * @example
+ * ```typescript
+ * const tokens = estimateTokens(prompt, { model: 'opus', systemPrompt });
+ * if (tokens > 150_000) throw new Error('Prompt too large');
+ * ```
+ */
+export function estimateTokens(prompt: Prompt, context: TokenEstimateContext = {}): number {
+  const tokenizer = getTokenizer(context.model);
+
+  let total = 0;
+  if (context.systemPrompt) total += tokenizer.estimateTokens(context.systemPrompt);
+  for (const item of context.context ?? []) {
+    total += tokenizer.estimateTokens(item);
+  }
+
+  if (typeof prompt === 'string') {
+    return total + tokenizer.estimateTokens(prompt);
+  }
+
+  for (const [index, block] of prompt.entries()) {
+    total += estimateBlock(block, tokenizer, `prompt[${index}]`);
+  }
+  return total;
+}
+
+function estimateBlock(block: PromptBlock, tokenizer: ApproximateTokenizer, field: string): number {
+  switch (block.type) {
+    case 'text':
+      return tokenizer.estimateTokens(block.text);
+
+    case 'image':
+      return MAX_IMAGE_TOKENS;
+
+    case 'document': {
+      if ('source' in block) {
+        return block.source.type === 'text'
+          ? tokenizer.estimateTokens(block.source.data)
+          : countPdfPages(Buffer.from(block.source.data, 'base64')) * TOKENS_PER_PDF_PAGE;
+      }
+
+      const bytes = documentBytes(block, field);
+      const isPdf = block.mediaType === 'application/pdf'
+        || (block.mediaType === undefined && bytes.subarray(0, 5).toString('ascii') === '%PDF-');
+      return isPdf
+        ? countPdfPages(bytes) * TOKENS_PER_PDF_PAGE
+        : tokenizer.estimateTokens(bytes.toString('utf-8'));
+    }
+
+    default:
+      return 0;
+  }
+}
+
+function documentBytes(block: PromptDocument, field: string): Buffer {
+  if (block.path) {
+    try {
+      return readFileSync(block.path);
+    } catch (error) {
+      throw new ValidationError(`${field}: cannot read ${block.path} (${(error as Error).message})`, field, block.path);
+    }
+  }
+  if (Buffer.isBuffer(block.data)) return block.data;
+  if (typeof block.data === 'string') return decodeStringData(block.data, block.mediaType, field);
+  throw new ValidationError(`${field}: document block requires a path or data`, field, block);
+}
+
+// Count page objects; at least one page for unparseable files
+function countPdfPages(bytes: Buffer): number {
+  const pages = bytes.toString('latin1').match(/\/Type\s*\/Page(?![s\w])/g);
+  return Math.max(1, pages?.length ?? 0);
+}
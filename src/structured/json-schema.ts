@@ -0,0 +1,154 @@
+/**
+ * Minimal JSON Schema validator for structured output
+ */
+
+import type { JSONSchema, JSONSchemaType, SchemaValidationIssue } from '../types/structured.js';
+
+/**
+ * Validate a value against a JSON Schema, returning every issue found
+ * (an empty array means the value is valid)
+ *
+ * @example
+ * ```typescript
+ * const issues = validateJSONSchema({ name: 42 }, {
+ *   type: 'object',
+ *   properties: { name: { type: 'string' } },
+ *   required: ['name']
+ * });
+ * // [{ path: '$.name', message: 'expected string, got number' }]
+ * ```
+ */
+export function validateJSONSchema(value: unknown, schema: JSONSchema): SchemaValidationIssue[] {
+  const issues: SchemaValidationIssue[] = [];
+  validate(value, schema, '$', issues);
+  return issues;
+}
+
+function validate(value: unknown, schema: JSONSchema, path: string, issues: SchemaValidationIssue[]): void {
+  const add = (message: string) => issues.push({ path, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      add(`expected ${types.join(' or ')}, got ${describeType(value)}`);
+      // Further keywords would only repeat the type mismatch
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && !deepEqual(value, schema.const)) {
+    add(`expected ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some(option => deepEqual(value, option))) {
+    add(`expected one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      add(`must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      add(`must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      add(`must match pattern ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) add(`must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) add(`must be <= ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) add(`must be > ${schema.exclusiveMinimum}`);
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) add(`must be < ${schema.exclusiveMaximum}`);
+    if (schema.multipleOf !== undefined && !isMultipleOf(value, schema.multipleOf)) {
+      add(`must be a multiple of ${schema.multipleOf}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) add(`must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) add(`must have at most ${schema.maxItems} items`);
+    if (schema.uniqueItems && value.some((item, index) => value.findIndex(other => deepEqual(item, other)) !== index)) {
+      add('items must be unique');
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validate(item, schema.items!, `${path}[${index}]`, issues));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) {
+        issues.push({ path: childPath(path, key), message: 'is required' });
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        validate(child, propertySchema, childPath(path, key), issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: childPath(path, key), message: 'is not an allowed property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validate(child, schema.additionalProperties, childPath(path, key), issues);
+      }
+    }
+  }
+
+  if (schema.allOf) {
+    for (const subschema of schema.allOf) {
+      validate(value, subschema, path, issues);
+    }
+  }
+  if (schema.anyOf && !schema.anyOf.some(subschema => validateJSONSchema(value, subschema).length === 0)) {
+    add('must match at least one schema in anyOf');
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(subschema => validateJSONSchema(value, subschema).length === 0).length;
+    if (matches !== 1) add(`must match exactly one schema in oneOf (matched ${matches})`);
+  }
+  if (schema.not && validateJSONSchema(value, schema.not).length === 0) {
+    add('must not match the schema in not');
+  }
+}
+
+function matchesType(value: unknown, type: JSONSchemaType): boolean {
+  switch (type) {
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return isPlainObject(value);
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeof value === type;
+  }
+}
+
+// Tolerates float error in the quotient, so 0.3 is a multiple of 0.1
+function isMultipleOf(value: number, divisor: number): boolean {
+  const quotient = value / divisor;
+  return Math.abs(quotient - Math.round(quotient)) <= 8 * Number.EPSILON * Math.max(1, Math.abs(quotient));
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function childPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length
+    && keysA.every(key => deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
@@ -0,0 +1,155 @@
+/**
+ * Record and replay CLI sessions as JSONL cassettes
+ */
+
+import { promises as fs } from 'node:fs';
+import { dirname } from 'node:path';
+import { InternalClient } from '../_internal/client.js';
+import { CLIConnectionError, CLIJSONDecodeError } from '../errors.js';
+import type {
+  CassetteEntry,
+  CLIOutput,
+  Message,
+  ReplayOptions,
+  Transport
+} from '../types.js';
+
+/**
+ * Wraps another transport and writes every CLIOutput it yields to a JSONL
+ * cassette, one `{ offsetMs, output }` entry per line.
+ *
+ * @example
+ * ```typescript
+ * const text = await claude()
+ *   .recordTo('fixtures/hello.jsonl')
+ *   .query('Say hello')
+ *   .asText();
+ * ```
+ */
+export class RecordingTransport implements Transport {
+  private file?: fs.FileHandle;
+  private startTime = 0;
+
+  constructor(
+    private inner: Transport,
+    private cassettePath: string
+  ) {}
+
+  async connect(): Promise<void> {
+    await fs.mkdir(dirname(this.cassettePath), { recursive: true });
+    this.file = await fs.open(this.cassettePath, 'w');
+    this.startTime = Date.now();
+    await this.inner.connect();
+  }
+
+  async *receiveMessages(): AsyncGenerator<CLIOutput> {
+    if (!this.file) {
+      throw new CLIConnectionError('Not connected to CLI');
+    }
+
+    for await (const output of this.inner.receiveMessages()) {
+      const entry: CassetteEntry = {
+        offsetMs: Date.now() - this.startTime,
+        output
+      };
+      await this.file.write(`${JSON.stringify(entry)}\n`);
+      yield output;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    try {
+      await this.inner.disconnect();
+    } finally {
+      await this.file?.close();
+      this.file = undefined;
+    }
+  }
+}
+
+/**
+ * Transport that plays back a recorded cassette, optionally with the
+ * original timing between outputs.
+ */
+export class ReplayTransport implements Transport {
+  private entries?: CassetteEntry[];
+
+  constructor(
+    private cassettePath: string,
+    private options: ReplayOptions = {}
+  ) {}
+
+  async connect(): Promise<void> {
+    this.entries = await loadCassette(this.cassettePath);
+  }
+
+  async *receiveMessages(): AsyncGenerator<CLIOutput> {
+    if (!this.entries) {
+      throw new CLIConnectionError('Not connected to CLI');
+    }
+
+    const speed = this.options.speed && this.options.speed > 0 ? this.options.speed : 1;
+    const startTime = Date.now();
+
+    for (const entry of this.entries) {
+      if (this.options.preserveTiming) {
+        const wait = entry.offsetMs / speed - (Date.now() - startTime);
+        if (wait > 0) {
+          await new Promise(resolve => setTimeout(resolve, wait));
+        }
+      }
+      if (!this.entries) return;
+      yield entry.output;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.entries = undefined;
+  }
+}
+
+/**
+ * Read and parse a JSONL cassette
+ */
+export async function loadCassette(cassettePath: string): Promise<CassetteEntry[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(cassettePath, 'utf-8');
+  } catch (error) {
+    throw new CLIConnectionError(`Failed to read cassette: ${cassettePath} (${(error as Error).message})`);
+  }
+
+  const entries: CassetteEntry[] = [];
+  for (const line of content.split('\n')) {
+    const trimmedLine = line.trim();
+    if (!trimmedLine) continue;
+
+    try {
+      entries.push(JSON.parse(trimmedLine) as CassetteEntry);
+    } catch (error) {
+      throw new CLIJSONDecodeError(`Failed to parse cassette line: ${error}`, trimmedLine);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Replay a cassette through the regular message parsing pipeline
+ *
+ * @example
+ * ```typescript
+ * for await (const message of replayCassette('fixtures/hello.jsonl')) {
+ *   console.log(message.type);
+ * }
+ * ```
+ */
+export async function* replayCassette(
+  cassettePath: string,
+  options: ReplayOptions = {}
+): AsyncGenerator<Message> {
+  const client = new InternalClient('', {
+    transport: new ReplayTransport(cassettePath, options)
+  });
+  yield* client.processQuery();
+}
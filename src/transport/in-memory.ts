@@ -0,0 +1,78 @@
+/**
+ * In-memory transport that replays scripted CLI output
+ */
+
+import { CLIConnectionError } from '../errors.js';
+import type { CLIOutput, Transport } from '../types.js';
+
+export interface InMemoryTransportOptions {
+  /** Delay in milliseconds before each output is yielded */
+  delayMs?: number;
+}
+
+/**
+ * Transport that yields a fixed script of CLIOutput objects instead of
+ * spawning the Claude Code CLI. Useful for exercising the full parsing and
+ * handler pipeline offline.
+ *
+ * @example
+ * ```typescript
+ * const transport = InMemoryTransport.fromText('Hello!');
+ *
+ * const text = await claude()
+ *   .withTransport(transport)
+ *   .query('Say hello')
+ *   .asText(); // 'Hello!'
+ * ```
+ */
+export class InMemoryTransport implements Transport {
+  private connected = false;
+  private _connectCount = 0;
+
+  constructor(
+    private outputs: CLIOutput[],
+    private options: InMemoryTransportOptions = {}
+  ) {}
+
+  /**
+   * Create a transport that answers with a single assistant text message
+   * followed by a successful result
+   */
+  static fromText(text: string, sessionId = 'in-memory-session'): InMemoryTransport {
+    return new InMemoryTransport([
+      { type: 'system', subtype: 'init', session_id: sessionId },
+      { type: 'assistant', message: { content: [{ type: 'text', text }] }, session_id: sessionId },
+      { type: 'result', subtype: 'success', content: text, session_id: sessionId }
+    ]);
+  }
+
+  /**
+   * Number of times connect() has been called
+   */
+  get connectCount(): number {
+    return this._connectCount;
+  }
+
+  async connect(): Promise<void> {
+    this.connected = true;
+    this._connectCount++;
+  }
+
+  async *receiveMessages(): AsyncGenerator<CLIOutput> {
+    if (!this.connected) {
+      throw new CLIConnectionError('Not connected to CLI');
+    }
+
+    for (const output of this.outputs) {
+      if (this.options.delayMs) {
+        await new Promise(resolve => setTimeout(resolve, this.options.delayMs));
+      }
+      if (!this.connected) return;
+      yield output;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+}
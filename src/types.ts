@@ -36,23 +36,100 @@ export interface ToolUseBlock {
 export interface ToolResultBlock {
   type: 'tool_result';
   tool_use_id: string;
-  content: string | Array<TextBlock | unknown>;
+  content: string | Array<TextBlock | ImageBlock>;
   is_error?: boolean;
 }
 
-export type ContentBlock = TextBlock | ToolUseBlock | ToolResultBlock;
+// Extended thinking output
+export interface ThinkingBlock {
+  type: 'thinking';
+  thinking: string;
+  signature?: string;
+}
+
+// Thinking the API returns encrypted (flagged by safety systems)
+export interface RedactedThinkingBlock {
+  type: 'redacted_thinking';
+  data: string;
+}
+
+export type ImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+// Base64 image, e.g. returned by Read for image files
+export interface ImageBlock {
+  type: 'image';
+  source: {
+    type: 'base64';
+    media_type: ImageMediaType;
+    data: string;
+  };
+}
+
+export type DocumentMediaType = 'application/pdf' | 'text/plain';
+
+// PDF or plain-text document attached to a prompt
+export interface DocumentBlock {
+  type: 'document';
+  source:
+    | { type: 'base64'; media_type: 'application/pdf'; data: string }
+    | { type: 'text'; media_type: 'text/plain'; data: string };
+  title?: string;
+}
+
+export type ContentBlock =
+  | TextBlock
+  | ToolUseBlock
+  | ToolResultBlock
+  | ThinkingBlock
+  | RedactedThinkingBlock
+  | ImageBlock
+  | DocumentBlock;
+
+// Image attached to a prompt, read from a file or given as a buffer
+export interface PromptImage {
+  type: 'image';
+  // File to read; the media type is detected from the extension
+  path?: string;
+  // Raw bytes (or base64 string) when not reading from a file
+  data?: Buffer | string;
+  // Required for string data; detected from the bytes for buffers
+  mediaType?: ImageMediaType;
+}
+
+// Document attached to a prompt, read from a file or given as a buffer
+export interface PromptDocument {
+  type: 'document';
+  path?: string;
+  // Raw bytes, or a string: plain text for text/plain, base64 for PDFs
+  data?: Buffer | string;
+  mediaType?: DocumentMediaType;
+  title?: string;
+}
+
+// Content blocks accepted in a prompt
+export type PromptBlock = TextBlock | PromptImage | PromptDocument | ImageBlock | DocumentBlock;
+
+// Plain text prompt, or content blocks for multimodal prompts
+export type Prompt = string | PromptBlock[];
 
 // Message types
 export interface UserMessage {
   type: 'user';
-  content: string;
+  // Plain text prompt, or content blocks (tool results the CLI feeds back to the model)
+  content: string | ContentBlock[];
   session_id?: string;
+  // Set when the message belongs to a sub-agent (Task) tool call
+  parent_tool_use_id?: string | null;
 }
 
 export interface AssistantMessage {
   type: 'assistant';
   content: ContentBlock[];
   session_id?: string;
+  // API message id (shared with the message's stream events)
+  message_id?: string;
+  // Usage reported so far for the API message
+  usage?: ResultMessage['usage'];
 }
 
 export interface SystemMessage {
@@ -62,10 +139,42 @@ export interface SystemMessage {
   session_id?: string;
 }
 
+// MCP server connection state reported at startup
+export interface MCPServerStatus {
+  name: string;
+  status: string;
+}
+
+// First message of every run, describing the CLI's environment
+export interface SystemInitMessage extends SystemMessage {
+  subtype: 'init';
+  cwd?: string;
+  model?: string;
+  tools: string[];
+  mcp_servers: MCPServerStatus[];
+  permissionMode?: PermissionMode | 'plan';
+  apiKeySource?: string;
+  slash_commands?: string[];
+}
+
+// Result subtypes emitted by the CLI
+export type ResultSubtype = 'success' | 'error_max_turns' | 'error_during_execution';
+
 export interface ResultMessage {
   type: 'result';
-  subtype?: string;
+  subtype?: ResultSubtype | string;
+  // Final response text (same as result, kept for backwards compatibility)
   content: string;
+  // Final response text as reported by the CLI
+  result?: string;
+  // Whether the run ended in an error
+  is_error?: boolean;
+  // Number of agent turns taken
+  num_turns?: number;
+  // Wall-clock duration of the run
+  duration_ms?: number;
+  // Time spent waiting on the API
+  duration_api_ms?: number;
   session_id?: string;
   usage?: {
     input_tokens?: number;
@@ -82,17 +191,91 @@ export interface ResultMessage {
   };
 }
 
-export type Message = UserMessage | AssistantMessage | SystemMessage | ResultMessage;
+// Incremental update to a content block
+export type ContentBlockDelta =
+  | { type: 'text_delta'; text: string }
+  | { type: 'thinking_delta'; thinking: string }
+  | { type: 'signature_delta'; signature: string }
+  | { type: 'input_json_delta'; partial_json: string };
 
-// MCP server configuration
-export interface MCPServer {
+// Raw Messages API streaming event, forwarded by the CLI with includePartialMessages
+export type RawStreamEvent =
+  | {
+    type: 'message_start';
+    message: { id: string; model?: string; usage?: ResultMessage['usage'] };
+  }
+  | { type: 'content_block_start'; index: number; content_block: ContentBlock }
+  | { type: 'content_block_delta'; index: number; delta: ContentBlockDelta }
+  | { type: 'content_block_stop'; index: number }
+  | {
+    type: 'message_delta';
+    delta: { stop_reason?: string | null };
+    usage?: ResultMessage['usage'];
+  }
+  | { type: 'message_stop' };
+
+// Partial assistant output received before the complete assistant message
+export interface StreamEventMessage {
+  type: 'stream_event';
+  event: RawStreamEvent;
+  session_id?: string;
+  // Set when the event belongs to a sub-agent (Task) tool call
+  parent_tool_use_id?: string | null;
+}
+
+export type Message = UserMessage | AssistantMessage | SystemMessage | ResultMessage | StreamEventMessage;
+
+// Narrow a message to the system init message
+export function isSystemInitMessage(message: Message): message is SystemInitMessage {
+  return message.type === 'system' && message.subtype === 'init';
+}
+
+// Diagnostic output from the CLI (stderr) surfaced to handlers
+export interface DiagnosticEvent {
+  type: 'diagnostic';
+  source: 'stderr';
+  line: string;
+  timestamp: number;
+}
+
+// MCP server the CLI starts and talks to over stdin/stdout
+export interface MCPStdioServer {
+  type?: 'stdio';
+  // Server name; the model sees its tools as mcp__<name>__<tool>.
+  // Deprecated to omit: unnamed stdio servers are called server-<index>
+  name?: string;
   command: string;
   args?: string[];
   env?: Record<string, string>;
 }
 
+// Running MCP server reached over Server-Sent Events
+export interface MCPSSEServer {
+  type: 'sse';
+  name: string;
+  url: string;
+  headers?: Record<string, string>;
+}
+
+// Running MCP server reached over streamable HTTP
+export interface MCPHttpServer {
+  type: 'http';
+  name: string;
+  url: string;
+  headers?: Record<string, string>;
+}
+
+// MCP server configuration
+export type MCPServer = MCPStdioServer | MCPSSEServer | MCPHttpServer;
+
 // Import types needed for options
 import type { MCPServerPermissionConfig } from './types/permissions.js';
+import type { PermissionMiddleware, PermissionRequestHandler } from './types/per-call-permissions.js';
+import type { Transport, TransportFactory, CancellationOptions } from './types/transport.js';
+import type { CLIProcessPool } from './_internal/transport/process-pool.js';
+import type { QueryScheduler } from './scheduler/query-scheduler.js';
+import type { SdkMcpServer } from './mcp/sdk-server.js';
+import type { QueryPriority } from './types/scheduler.js';
 
 // Main options interface
 export interface ClaudeCodeOptions {
@@ -101,14 +284,19 @@ export interface ClaudeCodeOptions {
   tools?: ToolName[];
   allowedTools?: ToolName[];
   deniedTools?: ToolName[];
-  mcpServers?: MCPServer[];
+  // External MCP servers, and tool servers created with createSdkMcpServer()
+  mcpServers?: Array<MCPServer | SdkMcpServer>;
   permissionMode?: PermissionMode;
   context?: string[];
   maxTokens?: number;
   temperature?: number;
   cwd?: string;
   env?: Record<string, string>;
+  // Overall deadline for the query (each turn of a ClaudeSession) in milliseconds
   timeout?: number;
+  // Maximum time in milliseconds without a stdout line before the CLI is killed
+  // (ClaudeSession: only while a turn is running)
+  idleTimeout?: number;
   debug?: boolean;
   // New permission management options
   mcpServerPermissions?: MCPServerPermissionConfig;
@@ -122,8 +310,45 @@ export interface ClaudeCodeOptions {
   signal?: AbortSignal;
   // Session ID for conversation continuity
   sessionId?: string;
+  // Continue the most recent session in cwd (--continue)
+  continueSession?: boolean;
+  // Also emit stream_event messages with incremental output (--include-partial-messages)
+  includePartialMessages?: boolean;
   // Additional directories to include in context
   addDirectories?: string[];
+  // Custom transport (instance or per-query factory) instead of spawning the CLI
+  transport?: Transport | TransportFactory;
+  // Record raw CLI output to this JSONL cassette path
+  recordTo?: string;
+  // Receives each stderr line emitted by the CLI
+  onDiagnostic?: (event: DiagnosticEvent) => void;
+  // Explicit path to the Claude Code CLI (skips discovery)
+  cliPath?: string;
+  // Throw instead of dropping options the installed CLI does not support
+  strictCapabilities?: boolean;
+  // Hand queries pre-spawned CLI processes from this pool
+  processPool?: CLIProcessPool;
+  // Signal ladder and grace period used to stop the CLI on abort or timeout
+  cancellation?: CancellationOptions;
+  // Wait for a slot in this scheduler before starting the query
+  scheduler?: QueryScheduler;
+  // Scheduler priority for this query (default: 'normal')
+  priority?: QueryPriority;
+  // Scheduler concurrency key (default: cwd)
+  schedulerKey?: string;
+  // Cancel the query once its estimated cost exceeds this many USD
+  maxBudgetUsd?: number;
+  // Cancel the query once it has generated more output tokens than this
+  maxOutputTokens?: number;
+  // Refuse to spawn the CLI when the prompt alone is estimated to exceed maxBudgetUsd
+  budgetPreflight?: boolean;
+  // Decide tool permission prompts in the SDK instead of the terminal
+  onPermissionRequest?: PermissionRequestHandler;
+  // Like onPermissionRequest, and also told about each tool result
+  permissionMiddleware?: PermissionMiddleware;
+  // MCP tool the CLI asks for permission (--permission-prompt-tool); set
+  // automatically when onPermissionRequest or permissionMiddleware is used
+  permissionPromptTool?: string;
 }
 
 // Additional types for internal use - based on actual Claude Code CLI output
@@ -149,21 +374,47 @@ export interface CLIEnd {
 export interface CLIAssistantOutput {
   type: 'assistant';
   message: {
+    id?: string;
     content: ContentBlock[];
+    usage?: ResultMessage['usage'];
   };
   session_id?: string;
 }
 
+export interface CLIUserOutput {
+  type: 'user';
+  message: {
+    role?: 'user';
+    content: string | ContentBlock[];
+  };
+  session_id?: string;
+  parent_tool_use_id?: string | null;
+}
+
 export interface CLISystemOutput {
   type: 'system';
   subtype?: string;
   session_id?: string;
+  cwd?: string;
+  model?: string;
+  tools?: string[];
+  mcp_servers?: MCPServerStatus[];
+  permissionMode?: PermissionMode | 'plan';
+  apiKeySource?: string;
+  slash_commands?: string[];
+  [key: string]: unknown;
 }
 
 export interface CLIResultOutput {
   type: 'result';
   subtype?: string;
   content?: string;
+  result?: string;
+  is_error?: boolean;
+  num_turns?: number;
+  duration_ms?: number;
+  duration_api_ms?: number;
+  total_cost_usd?: number;
   session_id?: string;
   usage?: {
     input_tokens?: number;
@@ -185,7 +436,37 @@ export interface CLIErrorOutput {
   };
 }
 
-export type CLIOutput = CLIAssistantOutput | CLISystemOutput | CLIResultOutput | CLIErrorOutput | CLIMessage | CLIError | CLIEnd;
+export interface CLIStreamEventOutput {
+  type: 'stream_event';
+  event: RawStreamEvent;
+  session_id?: string;
+  parent_tool_use_id?: string | null;
+  uuid?: string;
+}
+
+export type CLIOutput = CLIAssistantOutput | CLIUserOutput | CLISystemOutput | CLIResultOutput | CLIStreamEventOutput | CLIErrorOutput | CLIMessage | CLIError | CLIEnd;
+
+// How the prompt is delivered to the CLI on stdin
+export type CLIInputFormat = 'text' | 'stream-json';
+
+// User message written to stdin when the CLI runs with --input-format stream-json
+export interface CLIUserInput {
+  type: 'user';
+  message: {
+    role: 'user';
+    content: string | ContentBlock[];
+  };
+  session_id?: string;
+  parent_tool_use_id?: string | null;
+}
+
+// Re-export transport types
+export * from './types/transport.js';
+export * from './types/scheduler.js';
+export * from './types/session.js';
+export * from './types/structured.js';
+export * from './types/usage.js';
+export * from './types/mcp.js';
 
 // Re-export new permission and configuration types
 export * from './types/permissions.js';
@@ -212,7 +493,12 @@ export {
   ConflictResolution,
   AdvancedPermissionOptions,
   PermissionDecision,
-  ToolPermissionManager
+  ToolPermissionManager,
+  PermissionMiddleware,
+  PermissionCheckResult,
+  ToolConstraints,
+  PermissionRequest,
+  PermissionRequestHandler
 } from './types/per-call-permissions.js';
 
 // Re-export telemetry types
@@ -28,6 +28,18 @@ export interface MCPServerConfig {
   tools?: {
     [toolName: string]: ToolPermission;
   };
+  /**
+   * How to reach the server (default: stdio). Entries with a command or url
+   * are added to the query's MCP servers; others only set permissions.
+   */
+  type?: 'stdio' | 'sse' | 'http';
+  /** Executable for stdio servers */
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  /** Endpoint of sse and http servers */
+  url?: string;
+  headers?: Record<string, string>;
 }
 
 /**
@@ -3,6 +3,7 @@
  */
 
 import { BaseSDKError } from './base-error.js';
+import type { Message } from '../types.js';
 
 // API Errors
 
@@ -276,9 +277,17 @@ export type ErrorType =
   | 'stream_aborted_error'
   | 'validation_error';
 
+// Which deadline fired: the overall query deadline or the idle (no output) watchdog
+export type TimeoutType = 'overall' | 'idle';
+
 // Timeout error (convenience class)
 export class TimeoutError extends NetworkError {
-  constructor(message: string, _timeout?: number) {
+  constructor(
+    message: string,
+    public readonly timeout?: number,
+    public readonly timeoutType?: TimeoutType,
+    public readonly partialMessages: Message[] = []
+  ) {
     super(message, 'ETIMEDOUT');
     this.name = 'TimeoutError';
     Object.setPrototypeOf(this, TimeoutError.prototype);
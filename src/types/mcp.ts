@@ -0,0 +1,42 @@
+/**
+ * MCP tool interfaces for tools defined in the SDK process
+ */
+
+import type { JSONSchema } from './structured.js';
+
+// Content of a tool result
+export type ToolResultContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string };
+
+// Result of an MCP tool call
+export interface CallToolResult {
+  content: ToolResultContent[];
+  /** Tell the model the call failed */
+  isError?: boolean;
+}
+
+// Passed to tool handlers alongside the input
+export interface ToolCallContext {
+  /** Aborted when the query ends before the handler finishes */
+  signal: AbortSignal;
+}
+
+// A tool implemented by a function in the SDK process
+export interface SdkTool<Input = Record<string, unknown>> {
+  name: string;
+  /** Shown to the model; explain when to use the tool */
+  description?: string;
+  /** Input is validated against this schema before the handler runs */
+  inputSchema: JSONSchema;
+  /** Returns text, or a full result with images or isError */
+  handler(input: Input, context: ToolCallContext): string | CallToolResult | Promise<string | CallToolResult>;
+}
+
+// Options for createSdkMcpServer()
+export interface SdkMcpServerOptions {
+  /** Server name; the model sees its tools as mcp__<name>__<tool> */
+  name: string;
+  version?: string;
+  tools: SdkTool[];
+}
@@ -177,6 +177,26 @@ export interface PermissionCheckResult {
   constraints?: ToolConstraints;
 }
 
+// A tool use the CLI asks the SDK to approve (via --permission-prompt-tool)
+export interface PermissionRequest {
+  /** Tool name, e.g. 'Bash' or 'mcp__github__create_issue' */
+  toolName: string;
+  /** Input the model wants to call the tool with */
+  input: Record<string, unknown>;
+  /** Id of the tool_use block, when the CLI reports it */
+  toolUseId?: string;
+  /** The query the request belongs to */
+  context: QueryContext;
+  /** Aborted when the query ends before the request is answered */
+  signal: AbortSignal;
+}
+
+// Decides a permission request: true allows, false denies, or a check result
+// to deny with a reason or allow with modified input
+export type PermissionRequestHandler = (
+  request: PermissionRequest
+) => PermissionCheckResult | boolean | Promise<PermissionCheckResult | boolean>;
+
 // Constraints that can be applied to tool execution
 export interface ToolConstraints {
   /** Maximum execution time in ms */
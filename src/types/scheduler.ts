@@ -0,0 +1,61 @@
+/**
+ * Query scheduling interfaces for concurrency control
+ */
+
+// Priority levels, highest first
+export type QueryPriority = 'high' | 'normal' | 'low';
+
+// Scheduler configuration
+export interface QuerySchedulerOptions {
+  /** Maximum queries running at once across all keys (default: 4) */
+  maxConcurrency?: number;
+  /** Maximum concurrent queries for specific keys (e.g. a cwd or tenant id) */
+  keyLimits?: Record<string, number>;
+  /** Limit for keys without an entry in keyLimits (default: unlimited) */
+  defaultKeyLimit?: number;
+}
+
+// Per-submission options
+export interface ScheduleOptions {
+  /** Priority level (default: 'normal') */
+  priority?: QueryPriority;
+  /** Concurrency key, e.g. cwd or tenant id (default: 'default') */
+  key?: string;
+  /** Cancels the job while it is queued or running */
+  signal?: AbortSignal;
+}
+
+// Lifecycle state of a scheduled job
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// Handle returned for every submitted job
+export interface JobHandle<T> {
+  /** Unique job id */
+  readonly id: string;
+  /** Current status */
+  readonly status: JobStatus;
+  /** Settles with the task's result, or rejects with AbortError when cancelled */
+  readonly result: Promise<T>;
+  /** Cancel the job; running tasks receive an aborted signal */
+  cancel(reason?: string): void;
+}
+
+// Scheduler metrics
+export interface SchedulerMetrics {
+  /** Jobs currently running */
+  running: number;
+  /** Jobs waiting for a slot */
+  queued: number;
+  /** Waiting jobs per priority */
+  queuedByPriority: Record<QueryPriority, number>;
+  /** Running jobs per key */
+  runningByKey: Record<string, number>;
+  /** Jobs that have been started */
+  started: number;
+  /** Jobs cancelled while queued or running */
+  cancelled: number;
+  /** Average time from submission to start in milliseconds */
+  averageWaitMs: number;
+  /** Longest time from submission to start in milliseconds */
+  maxWaitMs: number;
+}
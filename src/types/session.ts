@@ -0,0 +1,41 @@
+/**
+ * Interfaces for browsing local Claude Code CLI session transcripts
+ */
+
+// Where transcripts are looked up
+export interface SessionStoreOptions {
+  /** Project directory whose sessions are listed (default: process.cwd()) */
+  cwd?: string;
+  /** Claude configuration directory (default: $CLAUDE_CONFIG_DIR or ~/.claude) */
+  claudeDir?: string;
+}
+
+// Summary of one stored session
+export interface SessionInfo {
+  /** Session id, usable with withSessionId() / --resume */
+  sessionId: string;
+  /** Path of the JSONL transcript */
+  path: string;
+  /** Working directory the session ran in */
+  cwd?: string;
+  /** Git branch at the start of the session */
+  gitBranch?: string;
+  /** Timestamp of the first entry */
+  createdAt: Date;
+  /** Timestamp of the last entry */
+  updatedAt: Date;
+  /** Number of user and assistant messages in the main conversation */
+  messageCount: number;
+  /** Number of user prompts (turns) in the main conversation */
+  turnCount: number;
+  /** Text of the first user prompt */
+  firstPrompt?: string;
+  /** Conversation summary written by the CLI, if any */
+  summary?: string;
+}
+
+// Options for forking a session
+export interface ForkSessionOptions {
+  /** Keep only the first N user turns (default: the whole conversation) */
+  turns?: number;
+}
@@ -6,15 +6,20 @@ import type { Message } from '../types.js';
 
 // Token chunk structure
 export interface TokenChunk {
-  /** The token text */
+  /** The token text (a text delta when partial messages are enabled) */
   token: string;
-  /** Timestamp when the token was emitted */
+  /** Timestamp when the token arrived */
   timestamp: number;
   /** Optional metadata about the token */
   metadata?: TokenMetadata;
 }
 
+// Whether a token is part of the answer or of extended thinking
+export type TokenKind = 'text' | 'thinking';
+
 export interface TokenMetadata {
+  /** Token kind (default: 'text') */
+  kind?: TokenKind;
   /** Message ID this token belongs to */
   messageId?: string;
   /** Block index within the message */
@@ -29,8 +34,8 @@ export interface TokenMetadata {
 
 // Stream controller for pause/resume/abort
 export interface StreamController {
-  /** Pause the stream */
-  pause(): void;
+  /** Pause the stream with optional reason */
+  pause(reason?: string): void;
   /** Resume a paused stream */
   resume(): void;
   /** Abort the stream with optional reason */
@@ -41,6 +46,8 @@ export interface StreamController {
   readonly isAborted: boolean;
   /** Get abort reason if aborted */
   readonly abortReason?: string;
+  /** Get the reason given for the latest pause */
+  readonly pauseReason?: string;
 }
 
 // Stream state
@@ -48,7 +55,7 @@ export type StreamState = 'active' | 'paused' | 'aborted' | 'completed' | 'error
 
 // Stream metrics
 export interface StreamMetrics {
-  /** Total tokens emitted */
+  /** Estimated model tokens emitted */
   tokensEmitted: number;
   /** Stream duration in milliseconds */
   duration: number;
@@ -58,6 +65,10 @@ export interface StreamMetrics {
   averageTokensPerSecond: number;
   /** Bytes received (if available) */
   bytesReceived?: number;
+  /** First token timestamp */
+  firstTokenTime?: number;
+  /** Milliseconds from stream creation to the first token */
+  timeToFirstToken?: number;
   /** Last token timestamp */
   lastTokenTime?: number;
   /** Pause count */
@@ -68,17 +79,17 @@ export interface StreamMetrics {
 
 // Stream options
 export interface StreamOptions {
-  /** Model being used (affects tokenization) */
+  /** Model being used (selects the tokenizer; default: the model reported by the CLI) */
   model?: string;
-  /** Buffer size for token history */
+  /** Keep only the latest N tokens in getSnapshot() (default: unbounded) */
   bufferSize?: number;
-  /** Enable token probability metadata */
+  /** Enable token probability metadata (not reported by the CLI; rejected) */
   includeTokenProbabilities?: boolean;
-  /** Throttle token emission rate (ms between tokens) */
+  /** Throttle token emission rate (minimum ms between tokens) */
   throttleMs?: number;
-  /** Auto-abort on specific patterns */
+  /** Abort as soon as recent answer text matches one of these patterns */
   abortPatterns?: RegExp[];
-  /** Auto-pause on specific patterns */
+  /** Pause as soon as recent answer text matches one of these patterns */
   pausePatterns?: RegExp[];
 }
 
@@ -108,14 +119,16 @@ export type StreamEvent =
   | 'abort'
   | 'complete'
   | 'error'
-  | 'metrics';
+  | 'metrics'
+  | 'seek';
 
 // Event handlers
 export type StreamEventHandler = 
   | TokenEventHandler
   | StateEventHandler
   | MetricsEventHandler
-  | ErrorEventHandler;
+  | ErrorEventHandler
+  | SeekEventHandler;
 
 export interface TokenEventHandler {
   (chunk: TokenChunk): void;
@@ -133,6 +146,10 @@ export interface ErrorEventHandler {
   (error: Error): void;
 }
 
+export interface SeekEventHandler {
+  (position: number): void;
+}
+
 // Enhanced stream control with advanced features
 export interface EnhancedStreamController extends StreamController {
   /** Set stream speed multiplier (1.0 = normal, 2.0 = double speed) */
@@ -145,6 +162,16 @@ export interface EnhancedStreamController extends StreamController {
   fastForward(tokens: number): void;
 }
 
+// Token stream replaying a recording, with seekable playback
+export interface ReplayTokenStream extends TokenStream {
+  /** Get the playback controller */
+  getController(): EnhancedStreamController;
+  /** Number of tokens played so far (the snapshot length) */
+  readonly position: number;
+  /** Number of tokens in the recording */
+  readonly length: number;
+}
+
 // Token stream with control wrapper for fluent API
 export interface TokenStreamWithControl {
   /** The token stream */
@@ -165,6 +192,16 @@ export interface Tokenizer {
   readonly model: string;
 }
 
+// What else a query sends along with its prompt, for estimateTokens()
+export interface TokenEstimateContext {
+  /** Model (or alias) whose tokenizer to use */
+  model?: string;
+  /** System prompt sent with the query */
+  systemPrompt?: string;
+  /** Additional context strings */
+  context?: string[];
+}
+
 // Factory for creating token streams
 export interface TokenStreamFactory {
   /** Create a token stream from a message generator */
@@ -172,5 +209,5 @@ export interface TokenStreamFactory {
   /** Create a token stream from text chunks */
   fromTextChunks(chunks: AsyncGenerator<string>, options?: StreamOptions): TokenStream;
   /** Create a replay stream from recorded tokens */
-  fromRecording(tokens: TokenChunk[], options?: StreamOptions): TokenStream;
+  fromRecording(tokens: TokenChunk[], options?: StreamOptions): ReplayTokenStream;
 }
\ No newline at end of file
@@ -0,0 +1,52 @@
+/**
+ * Structured output interfaces (JSON Schema validation and repair)
+ */
+
+export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+// Subset of JSON Schema (draft 2020-12) understood by the built-in validator
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  // Objects
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  // Arrays
+  items?: JSONSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  // Composition
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+  allOf?: JSONSchema[];
+  not?: JSONSchema;
+}
+
+// One validation failure, located by JSON path (e.g. $.items[2].name)
+export interface SchemaValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Type guard accepted in place of a JSON Schema
+export type StructuredTypeGuard<T> = (value: unknown) => value is T;
+
+// Options for ResponseParser.asStructured()
+export interface StructuredOutputOptions {
+  /** Corrective follow-up prompts sent in the same session before giving up (default: 2) */
+  maxRepairs?: number;
+}
@@ -0,0 +1,99 @@
+/**
+ * Transport interfaces for pluggable CLI communication
+ */
+
+import type { ClaudeCodeOptions, CLIOutput, Prompt } from '../types.js';
+
+/**
+ * A transport delivers raw CLI output to the SDK.
+ *
+ * The default implementation spawns the Claude Code CLI as a subprocess;
+ * custom transports can replay scripted output, proxy a remote process, etc.
+ */
+export interface Transport {
+  /** Establish the connection (e.g. spawn the process) */
+  connect(): Promise<void>;
+  /** Yield raw CLI output objects until the run completes */
+  receiveMessages(): AsyncGenerator<CLIOutput>;
+  /** Release all resources held by the transport */
+  disconnect(): Promise<void>;
+}
+
+/**
+ * Creates a transport for a single query
+ */
+export type TransportFactory = (prompt: Prompt, options: ClaudeCodeOptions) => Transport;
+
+/**
+ * One recorded line of a JSONL cassette
+ */
+export interface CassetteEntry {
+  /** Milliseconds since the recording transport connected */
+  offsetMs: number;
+  /** Raw CLI output as received from the transport */
+  output: CLIOutput;
+}
+
+/**
+ * Options for replaying a cassette
+ */
+export interface ReplayOptions {
+  /** Reproduce the original gaps between outputs (default: false) */
+  preserveTiming?: boolean;
+  /** Playback speed multiplier when preserving timing (default: 1) */
+  speed?: number;
+}
+
+/**
+ * Fully resolved CLI invocation for a query
+ */
+export interface CLICommand {
+  /** Path to the CLI executable */
+  cliPath: string;
+  /** Command-line arguments */
+  args: string[];
+  /** Working directory */
+  cwd?: string;
+  /** Extra environment variables (merged over process.env) */
+  env?: Record<string, string>;
+  /** Start the CLI as the leader of its own process group */
+  detached?: boolean;
+}
+
+/**
+ * How a running CLI process is stopped on abort or timeout
+ */
+export interface CancellationOptions {
+  /** Signals sent in order, each after the previous one's grace period (default: SIGINT, SIGTERM, SIGKILL) */
+  signals?: NodeJS.Signals[];
+  /** Milliseconds to wait for exit before sending the next signal (default: 2000) */
+  gracePeriodMs?: number;
+  /** Signal the CLI's whole process group so tool subprocesses are stopped too (default: true, POSIX only) */
+  killProcessGroup?: boolean;
+}
+
+/**
+ * Options for the warm CLI process pool
+ */
+export interface ProcessPoolOptions {
+  /** Idle processes kept ready per option fingerprint (default: 2) */
+  size?: number;
+  /** Retire idle processes after this many milliseconds (default: 300000) */
+  maxAgeMs?: number;
+}
+
+/**
+ * Process pool counters
+ */
+export interface ProcessPoolStats {
+  /** Distinct option fingerprints the pool serves */
+  fingerprints: number;
+  /** Processes currently waiting for a query */
+  idle: number;
+  /** Queries that got a pre-spawned process */
+  hits: number;
+  /** Queries that had to spawn their own process */
+  misses: number;
+  /** Processes retired for exceeding maxAgeMs */
+  retired: number;
+}
@@ -0,0 +1,102 @@
+/**
+ * Usage, pricing and budget interfaces
+ */
+
+// USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Writing to the prompt cache */
+  cacheWrite: number;
+  /** Reading from the prompt cache */
+  cacheRead: number;
+}
+
+// Which ceiling a query crossed
+export type BudgetLimit = 'cost' | 'output_tokens';
+
+// Spending ceilings for a single query
+export interface BudgetOptions {
+  /** Cancel the query once its cost exceeds this many USD */
+  maxBudgetUsd?: number;
+  /** Cancel the query once it has generated more output tokens than this */
+  maxOutputTokens?: number;
+  /** Refuse to start when the prompt alone is estimated to exceed maxBudgetUsd */
+  preflight?: boolean;
+}
+
+// Prices for models by name or alias, or a lookup function; unknown
+// models fall back to the built-in prices
+export type PriceTable =
+  | Record<string, ModelPricing>
+  | ((model: string | undefined) => ModelPricing | undefined);
+
+// Ledger configuration
+export interface UsageLedgerOptions {
+  /** Prices used when the CLI doesn't report a query's cost */
+  prices?: PriceTable;
+}
+
+// Tags recorded with each query of a builder
+export interface UsageTags {
+  /** Role name (set automatically by withRole) */
+  role?: string;
+  /** Free-form labels such as team, project or environment */
+  labels?: Record<string, string>;
+}
+
+// What a recorded query ran with
+export interface UsageContext extends UsageTags {
+  model?: string;
+  cwd?: string;
+}
+
+// One query's usage and cost
+export interface UsageRecord {
+  /** ISO 8601 time the result arrived */
+  timestamp: string;
+  sessionId?: string;
+  model?: string;
+  role?: string;
+  cwd?: string;
+  labels: Record<string, string>;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  totalTokens: number;
+  totalCost: number;
+  /** Whether the cost came from the CLI or was calculated from the price table */
+  costSource: 'reported' | 'estimated';
+  durationMs?: number;
+  numTurns?: number;
+  isError: boolean;
+}
+
+// Grouping for rollups; `{ label: 'team' }` groups by the value of a label
+export type UsageDimension = 'day' | 'month' | 'model' | 'role' | 'session' | 'cwd' | { label: string };
+
+// Narrows the records a rollup or export covers
+export interface UsageFilter {
+  /** Records at or after this time */
+  since?: Date;
+  /** Records before this time */
+  until?: Date;
+  model?: string;
+  role?: string;
+  /** Records carrying all of these labels */
+  labels?: Record<string, string>;
+}
+
+// Totals for one group of records
+export interface UsageRollup {
+  /** Group value; '(none)' for records without one */
+  key: string;
+  queries: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  totalTokens: number;
+  totalCost: number;
+}
@@ -0,0 +1,160 @@
+/**
+ * Running usage tracking for per-query budgets
+ */
+
+import type { BudgetLimit, ContentBlock, ContentBlockDelta, Message, ResultMessage } from '../types.js';
+import { isSystemInitMessage } from '../types.js';
+import { usageFromResult, type UsageStats } from '../parser.js';
+import { getTokenizer } from '../streaming/tokenizer.js';
+import { calculateCost, getModelPricing, type BillableUsage } from './pricing.js';
+
+// Usage of one API message
+interface MessageUsage {
+  reported: BillableUsage;
+  // Estimated from content, for when the reported output lags behind
+  estimatedOutput: number;
+  // Content was counted from stream deltas
+  streamed: boolean;
+}
+
+/**
+ * Adds up usage while a query runs, from assistant message usage, stream
+ * events and content, until the result message reports the final figures.
+ *
+ * @example
+ * ```typescript
+ * const tracker = new UsageTracker('sonnet');
+ * for await (const message of query(prompt)) {
+ *   tracker.observe(message);
+ *   console.log(tracker.usage.totalCost);
+ * }
+ * ```
+ */
+export class UsageTracker {
+  private messages = new Map<string, MessageUsage>();
+  private currentMessageId?: string;
+  private anonymousMessages = 0;
+  private final?: UsageStats;
+
+  constructor(private model?: string) {}
+
+  observe(message: Message): void {
+    switch (message.type) {
+      case 'system':
+        if (isSystemInitMessage(message) && message.model) {
+          this.model ??= message.model;
+        }
+        break;
+
+      case 'stream_event': {
+        const { event } = message;
+        if (event.type === 'message_start') {
+          this.currentMessageId = event.message.id;
+          this.record(event.message.id, event.message.usage);
+        } else if (event.type === 'message_delta' && this.currentMessageId) {
+          this.record(this.currentMessageId, event.usage);
+        } else if (event.type === 'content_block_delta' && this.currentMessageId) {
+          const entry = this.record(this.currentMessageId, undefined);
+          entry.streamed = true;
+          entry.estimatedOutput += getTokenizer(this.model).estimateTokens(deltaText(event.delta));
+        }
+        break;
+      }
+
+      case 'assistant': {
+        const id = message.message_id ?? `anonymous-${++this.anonymousMessages}`;
+        const entry = this.record(id, message.usage);
+        // The CLI sends one assistant message per content block
+        if (!entry.streamed) {
+          entry.estimatedOutput += estimateOutput(message.content, this.model);
+        }
+        break;
+      }
+
+      case 'result':
+        this.final = usageFromResult(message) ?? undefined;
+        break;
+    }
+  }
+
+  /**
+   * Usage so far (the result message's figures once it has arrived)
+   */
+  get usage(): UsageStats {
+    if (this.final) {
+      return this.final.totalCost > 0
+        ? { ...this.final }
+        : { ...this.final, totalCost: calculateCost(this.final, getModelPricing(this.model)) };
+    }
+
+    const total: BillableUsage = { inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0 };
+    for (const { reported, estimatedOutput } of this.messages.values()) {
+      total.inputTokens += reported.inputTokens;
+      total.outputTokens += Math.max(reported.outputTokens, estimatedOutput);
+      total.cacheCreationTokens += reported.cacheCreationTokens;
+      total.cacheReadTokens += reported.cacheReadTokens;
+    }
+
+    return {
+      ...total,
+      totalTokens: total.inputTokens + total.outputTokens,
+      totalCost: calculateCost(total, getModelPricing(this.model))
+    };
+  }
+
+  /**
+   * The first ceiling the usage so far has crossed, if any
+   */
+  exceeded(limits: { maxBudgetUsd?: number; maxOutputTokens?: number }): { limit: BudgetLimit; ceiling: number } | null {
+    const usage = this.usage;
+    if (limits.maxOutputTokens !== undefined && usage.outputTokens > limits.maxOutputTokens) {
+      return { limit: 'output_tokens', ceiling: limits.maxOutputTokens };
+    }
+    if (limits.maxBudgetUsd !== undefined && usage.totalCost > limits.maxBudgetUsd) {
+      return { limit: 'cost', ceiling: limits.maxBudgetUsd };
+    }
+    return null;
+  }
+
+  // Usage snapshots are cumulative per message, so keep the highest of each
+  private record(id: string, usage: ResultMessage['usage']): MessageUsage {
+    let entry = this.messages.get(id);
+    if (!entry) {
+      entry = {
+        reported: { inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0 },
+        estimatedOutput: 0,
+        streamed: false
+      };
+      this.messages.set(id, entry);
+    }
+
+    if (usage) {
+      const { reported } = entry;
+      reported.inputTokens = Math.max(reported.inputTokens, usage.input_tokens ?? 0);
+      reported.outputTokens = Math.max(reported.outputTokens, usage.output_tokens ?? 0);
+      reported.cacheCreationTokens = Math.max(reported.cacheCreationTokens, usage.cache_creation_input_tokens ?? 0);
+      reported.cacheReadTokens = Math.max(reported.cacheReadTokens, usage.cache_read_input_tokens ?? 0);
+    }
+    return entry;
+  }
+}
+
+function estimateOutput(content: ContentBlock[], model?: string): number {
+  const tokenizer = getTokenizer(model);
+  let tokens = 0;
+  for (const block of content) {
+    if (block.type === 'text') tokens += tokenizer.estimateTokens(block.text);
+    else if (block.type === 'thinking') tokens += tokenizer.estimateTokens(block.thinking);
+    else if (block.type === 'tool_use') tokens += tokenizer.estimateTokens(JSON.stringify(block.input));
+  }
+  return tokens;
+}
+
+function deltaText(delta: ContentBlockDelta): string {
+  switch (delta.type) {
+    case 'text_delta': return delta.text;
+    case 'thinking_delta': return delta.thinking;
+    case 'input_json_delta': return delta.partial_json;
+    default: return '';
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Usage and cost ledger across queries, sessions and roles
+ */
+
+import type {
+  Message,
+  ModelPricing,
+  ResultMessage,
+  UsageContext,
+  UsageDimension,
+  UsageFilter,
+  UsageLedgerOptions,
+  UsageRecord,
+  UsageRollup
+} from '../types.js';
+import { isSystemInitMessage } from '../types.js';
+import { ValidationError } from '../errors.js';
+import { usageFromResult } from '../parser.js';
+import { calculateCost, getModelPricing } from './pricing.js';
+
+const CSV_COLUMNS: Array<keyof UsageRecord> = [
+  'timestamp', 'sessionId', 'model', 'role', 'cwd',
+  'inputTokens', 'outputTokens', 'cacheCreationTokens', 'cacheReadTokens', 'totalTokens',
+  'totalCost', 'costSource', 'durationMs', 'numTurns', 'isError'
+];
+
+const NO_KEY = '(none)';
+
+/**
+ * Records the usage and cost of every query it is attached to, tagged with
+ * model, role, session, working directory and labels, and answers rollups
+ * over them. Costs the CLI doesn't report are calculated from the price
+ * table.
+ *
+ * @example
+ * ```typescript
+ * const ledger = new UsageLedger({ prices: { 'claude-sonnet-4': { input: 2.7, output: 13.5, cacheWrite: 3.4, cacheRead: 0.27 } } });
+ *
+ * await claude()
+ *   .withRole('reviewer')
+ *   .withUsageLedger(ledger, { team: 'payments' })
+ *   .query('Review the open PR')
+ *   .asText();
+ *
+ * const byTeam = ledger.rollup({ label: 'team' }, { since: new Date('2025-06-01') });
+ * await writeFile('usage.csv', ledger.exportCSV());
+ * ```
+ */
+export class UsageLedger {
+  private entries: UsageRecord[] = [];
+
+  constructor(private options: UsageLedgerOptions = {}) {}
+
+  /**
+   * Record the usage of a finished query from its result message
+   */
+  record(result: ResultMessage, context: UsageContext = {}): UsageRecord {
+    const usage = usageFromResult(result) ?? {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
+      totalTokens: 0,
+      totalCost: 0
+    };
+    const reported = usage.totalCost > 0;
+
+    const entry: UsageRecord = {
+      timestamp: new Date().toISOString(),
+      sessionId: result.session_id,
+      model: context.model,
+      role: context.role,
+      cwd: context.cwd,
+      labels: { ...context.labels },
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      cacheCreationTokens: usage.cacheCreationTokens,
+      cacheReadTokens: usage.cacheReadTokens,
+      totalTokens: usage.totalTokens,
+      totalCost: reported ? usage.totalCost : calculateCost(usage, this.pricingFor(context.model)),
+      costSource: reported ? 'reported' : 'estimated',
+      durationMs: result.duration_ms,
+      numTurns: result.num_turns,
+      isError: result.is_error ?? false
+    };
+    this.entries.push(entry);
+    return entry;
+  }
+
+  /**
+   * Message handler that records the query's result message. The model and
+   * working directory reported by the CLI take precedence over the context's.
+   */
+  observer(context: UsageContext = {}): (message: Message) => void {
+    let { model, cwd } = context;
+    return (message) => {
+      if (isSystemInitMessage(message)) {
+        model = message.model ?? model;
+        cwd = message.cwd ?? cwd;
+      } else if (message.type === 'result') {
+        this.record(message, { ...context, model, cwd });
+      }
+    };
+  }
+
+  /**
+   * Recorded queries, oldest first
+   */
+  records(filter: UsageFilter = {}): UsageRecord[] {
+    return this.entries.filter(entry => matches(entry, filter)).map(entry => ({ ...entry, labels: { ...entry.labels } }));
+  }
+
+  /**
+   * Totals of all matching records
+   */
+  total(filter: UsageFilter = {}): UsageRollup {
+    const total = emptyRollup('total');
+    for (const entry of this.records(filter)) addTo(total, entry);
+    return total;
+  }
+
+  /**
+   * Totals grouped by day or month (UTC), model, role, session, working
+   * directory or a label, sorted by key
+   */
+  rollup(by: UsageDimension, filter: UsageFilter = {}): UsageRollup[] {
+    const groups = new Map<string, UsageRollup>();
+    for (const entry of this.records(filter)) {
+      const key = groupKey(entry, by) ?? NO_KEY;
+      let group = groups.get(key);
+      if (!group) {
+        group = emptyRollup(key);
+        groups.set(key, group);
+      }
+      addTo(group, entry);
+    }
+    return [...groups.values()].sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Matching records as a JSON array (loadable with UsageLedger.fromJSON)
+   */
+  exportJSON(filter: UsageFilter = {}): string {
+    return JSON.stringify(this.records(filter), null, 2);
+  }
+
+  /**
+   * Matching records as CSV, with one `label:<name>` column per label
+   */
+  exportCSV(filter: UsageFilter = {}): string {
+    const records = this.records(filter);
+    const labelNames = [...new Set(records.flatMap(entry => Object.keys(entry.labels)))].sort();
+
+    const lines = [[...CSV_COLUMNS, ...labelNames.map(name => `label:${name}`)].map(csvField).join(',')];
+    for (const entry of records) {
+      lines.push([
+        ...CSV_COLUMNS.map(column => csvField(entry[column])),
+        ...labelNames.map(name => csvField(entry.labels[name]))
+      ].join(','));
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Forget all records
+   */
+  clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * Restore a ledger from exportJSON() output
+   */
+  static fromJSON(json: string, options?: UsageLedgerOptions): UsageLedger {
+    const ledger = new UsageLedger(options);
+
+    let records: unknown;
+    try {
+      records = JSON.parse(json);
+    } catch (error) {
+      throw new ValidationError(`Invalid usage ledger JSON: ${(error as Error).message}`, 'json', json);
+    }
+    if (!Array.isArray(records)) {
+      throw new ValidationError('Usage ledger JSON must be an array of records', 'json', records);
+    }
+
+    for (const [index, record] of records.entries()) {
+      if (!record || typeof record !== 'object' || typeof (record as UsageRecord).timestamp !== 'string') {
+        throw new ValidationError(`Usage record ${index} is missing its timestamp`, `records[${index}]`, record);
+      }
+      ledger.entries.push({ ...(record as UsageRecord), labels: { ...(record as UsageRecord).labels } });
+    }
+    return ledger;
+  }
+
+  private pricingFor(model?: string): ModelPricing {
+    const { prices } = this.options;
+    if (typeof prices === 'function') {
+      return prices(model) ?? getModelPricing(model);
+    }
+    if (prices && model) {
+      if (prices[model]) return prices[model];
+      // Longest key contained in the model name, so 'claude-sonnet-4' beats 'sonnet'
+      const key = Object.keys(prices)
+        .filter(name => model.toLowerCase().includes(name.toLowerCase()))
+        .sort((a, b) => b.length - a.length)[0];
+      if (key) return prices[key]!;
+    }
+    return getModelPricing(model);
+  }
+}
+
+function matches(entry: UsageRecord, filter: UsageFilter): boolean {
+  const time = Date.parse(entry.timestamp);
+  if (filter.since && time < filter.since.getTime()) return false;
+  if (filter.until && time >= filter.until.getTime()) return false;
+  if (filter.model !== undefined && entry.model !== filter.model) return false;
+  if (filter.role !== undefined && entry.role !== filter.role) return false;
+  for (const [name, value] of Object.entries(filter.labels ?? {})) {
+    if (entry.labels[name] !== value) return false;
+  }
+  return true;
+}
+
+function groupKey(entry: UsageRecord, by: UsageDimension): string | undefined {
+  if (typeof by === 'object') return entry.labels[by.label];
+
+  switch (by) {
+    case 'day': return entry.timestamp.slice(0, 10);
+    case 'month': return entry.timestamp.slice(0, 7);
+    case 'model': return entry.model;
+    case 'role': return entry.role;
+    case 'session': return entry.sessionId;
+    case 'cwd': return entry.cwd;
+  }
+}
+
+function emptyRollup(key: string): UsageRollup {
+  return {
+    key,
+    queries: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    totalTokens: 0,
+    totalCost: 0
+  };
+}
+
+function addTo(rollup: UsageRollup, entry: UsageRecord): void {
+  rollup.queries++;
+  rollup.inputTokens += entry.inputTokens;
+  rollup.outputTokens += entry.outputTokens;
+  rollup.cacheCreationTokens += entry.cacheCreationTokens;
+  rollup.cacheReadTokens += entry.cacheReadTokens;
+  rollup.totalTokens += entry.totalTokens;
+  rollup.totalCost += entry.totalCost;
+}
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,43 @@
+/**
+ * Model prices and cost calculation
+ */
+
+import type { ModelPricing } from '../types.js';
+import type { UsageStats } from '../parser.js';
+
+// Token counts that are priced
+export type BillableUsage = Pick<UsageStats, 'inputTokens' | 'outputTokens' | 'cacheCreationTokens' | 'cacheReadTokens'>;
+
+// Most specific first; the first matching entry wins
+const PRICES: Array<{ matches: RegExp; pricing: ModelPricing }> = [
+  { matches: /opus-4[-.][5-9]/i, pricing: { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 } },
+  { matches: /opus/i, pricing: { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 } },
+  { matches: /claude-3-haiku/i, pricing: { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 } },
+  { matches: /claude-3[-.]5-haiku/i, pricing: { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 } },
+  { matches: /haiku/i, pricing: { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 } },
+  { matches: /sonnet/i, pricing: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 } }
+];
+
+// Unknown models are priced like the most expensive family, so budgets
+// are never under-counted
+const FALLBACK_PRICING: ModelPricing = { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 };
+
+/**
+ * Price per million tokens for a model name or alias
+ */
+export function getModelPricing(model?: string): ModelPricing {
+  if (!model) return FALLBACK_PRICING;
+  return PRICES.find(entry => entry.matches.test(model))?.pricing ?? FALLBACK_PRICING;
+}
+
+/**
+ * Cost in USD of the given usage
+ */
+export function calculateCost(usage: BillableUsage, pricing: ModelPricing): number {
+  return (
+    usage.inputTokens * pricing.input +
+    usage.outputTokens * pricing.output +
+    usage.cacheCreationTokens * pricing.cacheWrite +
+    usage.cacheReadTokens * pricing.cacheRead
+  ) / 1_000_000;
+}
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { claude } from '../src/fluent.js';
+import { CLIConnectionError, CLIJSONDecodeError } from '../src/errors.js';
+import { InMemoryTransport } from '../src/transport/in-memory.js';
+import { ReplayTransport, loadCassette, replayCassette } from '../src/transport/cassette.js';
+import type { CassetteEntry, CLIOutput } from '../src/types.js';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(join(tmpdir(), 'claude-sdk-cassette-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+async function writeCassette(name: string, entries: CassetteEntry[]): Promise<string> {
+  const path = join(dir, name);
+  await fs.writeFile(path, entries.map(entry => JSON.stringify(entry)).join('\n') + '\n');
+  return path;
+}
+
+async function collect(outputs: AsyncGenerator<CLIOutput>): Promise<CLIOutput[]> {
+  const collected: CLIOutput[] = [];
+  for await (const output of outputs) collected.push(output);
+  return collected;
+}
+
+describe('cassettes', () => {
+  it('records a query and replays it through the same pipeline', async () => {
+    const cassette = join(dir, 'nested', 'hello.jsonl');
+
+    const recorded = await claude()
+      .withTransport(InMemoryTransport.fromText('Hello from the recording'))
+      .recordTo(cassette)
+      .query('Say hello')
+      .asText();
+
+    const entries = await loadCassette(cassette);
+    expect(entries.map(entry => entry.output.type)).toEqual(['system', 'assistant', 'result']);
+    expect(entries.every(entry => typeof entry.offsetMs === 'number')).toBe(true);
+
+    const replayed = await claude().replayFrom(cassette).query('Say hello').asText();
+    expect(replayed).toBe(recorded);
+    expect(replayed).toBe('Hello from the recording');
+  });
+
+  it('replays messages with replayCassette()', async () => {
+    const cassette = await writeCassette('replay.jsonl', [
+      { offsetMs: 0, output: { type: 'assistant', message: { content: [{ type: 'text', text: 'Hi' }] }, session_id: 's' } as CLIOutput },
+      { offsetMs: 5, output: { type: 'result', subtype: 'success', content: 'Hi', session_id: 's' } as CLIOutput }
+    ]);
+
+    const types: string[] = [];
+    for await (const message of replayCassette(cassette)) types.push(message.type);
+    expect(types).toEqual(['assistant', 'result']);
+  });
+
+  it('reproduces the recorded timing at the given speed', async () => {
+    const cassette = await writeCassette('timed.jsonl', [
+      { offsetMs: 0, output: { type: 'system', subtype: 'init', session_id: 's' } as CLIOutput },
+      { offsetMs: 400, output: { type: 'result', subtype: 'success', content: '', session_id: 's' } as CLIOutput }
+    ]);
+
+    const transport = new ReplayTransport(cassette, { preserveTiming: true, speed: 2 });
+    await transport.connect();
+    const start = Date.now();
+    expect(await collect(transport.receiveMessages())).toHaveLength(2);
+    const elapsed = Date.now() - start;
+    expect(elapsed).toBeGreaterThanOrEqual(190);
+    expect(elapsed).toBeLessThan(390);
+  });
+
+  it('reports missing and malformed cassettes', async () => {
+    await expect(loadCassette(join(dir, 'missing.jsonl'))).rejects.toBeInstanceOf(CLIConnectionError);
+
+    const broken = join(dir, 'broken.jsonl');
+    await fs.writeFile(broken, '{"offsetMs": 0, "output": {"type": "system"}}\n{not json\n');
+    await expect(loadCassette(broken)).rejects.toBeInstanceOf(CLIJSONDecodeError);
+  });
+
+  it('requires connect() before replaying', async () => {
+    const transport = new ReplayTransport(join(dir, 'unused.jsonl'));
+    await expect(collect(transport.receiveMessages())).rejects.toBeInstanceOf(CLIConnectionError);
+  });
+});
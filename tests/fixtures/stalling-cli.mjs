@@ -0,0 +1,25 @@
+#!/usr/bin/env node
+// Stands in for the Claude Code CLI: answers --version, then starts a turn
+// that never finishes. STALL_MODE=silent stops writing after the first
+// messages; STALL_MODE=chatty keeps writing without ever sending a result.
+if (process.argv.includes('--version')) {
+  console.log('1.0.90 (Claude Code)');
+  process.exit(0);
+}
+
+const sessionId = 'stalling-session';
+const write = message => process.stdout.write(JSON.stringify(message) + '\n');
+
+if (process.env.STALL_PID_FILE) {
+  const { writeFileSync } = await import('node:fs');
+  writeFileSync(process.env.STALL_PID_FILE, String(process.pid));
+}
+
+write({ type: 'system', subtype: 'init', session_id: sessionId, model: 'claude-sonnet-4', tools: [] });
+write({ type: 'assistant', session_id: sessionId, message: { id: 'msg_1', content: [{ type: 'text', text: 'Working on it' }] } });
+
+if (process.env.STALL_MODE === 'chatty') {
+  setInterval(() => write({ type: 'system', subtype: 'status', session_id: sessionId }), 20);
+} else {
+  setInterval(() => {}, 1000);
+}
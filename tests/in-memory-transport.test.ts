@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { claude } from '../src/fluent.js';
+import { InMemoryTransport } from '../src/transport/in-memory.js';
+import type { CLIOutput, Message } from '../src/types.js';
+
+const SESSION_ID = 'in-memory-session';
+
+// A turn that reads a file before answering
+const script: CLIOutput[] = [
+  { type: 'system', subtype: 'init', session_id: SESSION_ID, model: 'claude-sonnet-4', tools: ['Read'] },
+  {
+    type: 'assistant',
+    session_id: SESSION_ID,
+    message: { id: 'msg_1', content: [{ type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: 'package.json' } }] }
+  },
+  {
+    type: 'user',
+    session_id: SESSION_ID,
+    message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: '{"name":"demo"}' }] }
+  },
+  { type: 'assistant', session_id: SESSION_ID, message: { id: 'msg_2', content: [{ type: 'text', text: 'The package is called demo.' }] } },
+  {
+    type: 'result',
+    subtype: 'success',
+    content: 'The package is called demo.',
+    session_id: SESSION_ID,
+    usage: { input_tokens: 120, output_tokens: 30 },
+    total_cost_usd: 0.0012
+  }
+] as CLIOutput[];
+
+describe('InMemoryTransport', () => {
+  it('answers a query from the script', async () => {
+    const text = await claude()
+      .withTransport(new InMemoryTransport(script))
+      .query('What is the package called?')
+      .asText();
+
+    expect(text).toBe('The package is called demo.');
+  });
+
+  it('runs every message through the handlers in order', async () => {
+    const types: string[] = [];
+    const tools: string[] = [];
+    const texts: string[] = [];
+
+    await claude()
+      .withTransport(new InMemoryTransport(script))
+      .onMessage(message => types.push(message.type))
+      .onToolUse(tool => tools.push(`${tool.name} ${JSON.stringify(tool.input)}`))
+      .onAssistant(content => content.forEach(block => block.type === 'text' && texts.push(block.text)))
+      .query('What is the package called?')
+      .asText();
+
+    expect(types).toEqual(['system', 'assistant', 'user', 'assistant', 'result']);
+    expect(tools).toEqual(['Read {"file_path":"package.json"}']);
+    expect(texts).toEqual(['The package is called demo.']);
+  });
+
+  it('exposes tool executions, usage and the session', async () => {
+    const parser = claude().withTransport(new InMemoryTransport(script)).query('What is the package called?');
+
+    expect(await parser.asToolExecutions()).toEqual([
+      { tool: 'Read', input: { file_path: 'package.json' }, result: '{"name":"demo"}', isError: false }
+    ]);
+    expect(await parser.getUsage()).toMatchObject({ inputTokens: 120, outputTokens: 30, totalCost: 0.0012 });
+    expect(await parser.getSessionId()).toBe(SESSION_ID);
+    expect(await parser.succeeded()).toBe(true);
+  });
+
+  it('creates a transport per query from a factory', async () => {
+    const transports: InMemoryTransport[] = [];
+    const builder = claude().withTransport(() => {
+      const transport = InMemoryTransport.fromText(`answer ${transports.length + 1}`);
+      transports.push(transport);
+      return transport;
+    });
+
+    expect(await builder.query('first').asText()).toBe('answer 1');
+    expect(await builder.query('second').asText()).toBe('answer 2');
+    expect(transports.map(transport => transport.connectCount)).toEqual([1, 1]);
+  });
+
+  it('sends the system prompt and role template only on the first turn of a conversation', async () => {
+    const sent: Array<{ prompt: unknown; sessionId?: string }> = [];
+    const chat = claude()
+      .withRole({
+        name: 'translator',
+        model: 'sonnet',
+        permissions: {},
+        systemPrompt: 'Answer in French.',
+        promptingTemplate: 'You translate for ${team}.'
+      }, { team: 'support' })
+      .withTransport((prompt, options) => {
+        sent.push({ prompt, sessionId: options.sessionId });
+        return InMemoryTransport.fromText('Oui', SESSION_ID);
+      })
+      .conversation();
+
+    await chat.send('Hello').asText();
+    await chat.send('Again').asText();
+
+    expect(sent).toEqual([
+      { prompt: 'Answer in French.\n\nYou translate for support.\n\nHello', sessionId: undefined },
+      { prompt: 'Again', sessionId: SESSION_ID }
+    ]);
+  });
+
+  it('replays the same script for several consumers of one query', async () => {
+    const parser = claude().withTransport(InMemoryTransport.fromText('Hello!')).query('Say hello');
+
+    const [first, second] = await Promise.all([parser.asArray(), parser.asArray()]);
+    expect(first.map((message: Message) => message.type)).toEqual(['system', 'assistant', 'result']);
+    expect(second).toEqual(first);
+  });
+});
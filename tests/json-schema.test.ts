@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { validateJSONSchema } from '../src/structured/json-schema.js';
+import type { JSONSchema } from '../src/types.js';
+
+const messages = (value: unknown, schema: JSONSchema) =>
+  validateJSONSchema(value, schema).map(issue => `${issue.path} ${issue.message}`);
+
+describe('validateJSONSchema', () => {
+  describe('type', () => {
+    it('accepts matching types', () => {
+      expect(messages('a', { type: 'string' })).toEqual([]);
+      expect(messages(1.5, { type: 'number' })).toEqual([]);
+      expect(messages(2, { type: 'integer' })).toEqual([]);
+      expect(messages(null, { type: 'null' })).toEqual([]);
+      expect(messages([], { type: 'array' })).toEqual([]);
+      expect(messages({}, { type: 'object' })).toEqual([]);
+      expect(messages(null, { type: ['string', 'null'] })).toEqual([]);
+    });
+
+    it('reports mismatches without checking further keywords', () => {
+      expect(messages(1.5, { type: 'integer', minimum: 5 })).toEqual(['$ expected integer, got number']);
+      expect(messages([], { type: 'object' })).toEqual(['$ expected object, got array']);
+      expect(messages(null, { type: ['string', 'number'] })).toEqual(['$ expected string or number, got null']);
+      expect(messages(Infinity, { type: 'number' })).toEqual(['$ expected number, got number']);
+    });
+  });
+
+  it('checks const and enum with deep equality', () => {
+    expect(messages({ a: [1] }, { const: { a: [1] } })).toEqual([]);
+    expect(messages('b', { const: 'a' })).toEqual(['$ expected "a"']);
+    expect(messages([1, 2], { enum: [[1, 2], 'x'] })).toEqual([]);
+    expect(messages('y', { enum: ['x', 1] })).toEqual(['$ expected one of "x", 1']);
+  });
+
+  it('checks string length and pattern', () => {
+    const schema: JSONSchema = { type: 'string', minLength: 2, maxLength: 4, pattern: '^[a-z]+$' };
+    expect(messages('abc', schema)).toEqual([]);
+    expect(messages('a', schema)).toEqual(['$ must be at least 2 characters']);
+    expect(messages('abcde', schema)).toEqual(['$ must be at most 4 characters']);
+    expect(messages('AB', schema)).toEqual(['$ must match pattern ^[a-z]+$']);
+  });
+
+  describe('numbers', () => {
+    it('checks inclusive and exclusive bounds', () => {
+      expect(messages(5, { minimum: 5, maximum: 5 })).toEqual([]);
+      expect(messages(4, { minimum: 5 })).toEqual(['$ must be >= 5']);
+      expect(messages(6, { maximum: 5 })).toEqual(['$ must be <= 5']);
+      expect(messages(5, { exclusiveMinimum: 5 })).toEqual(['$ must be > 5']);
+      expect(messages(5, { exclusiveMaximum: 5 })).toEqual(['$ must be < 5']);
+    });
+
+    it('checks multipleOf', () => {
+      expect(messages(9, { multipleOf: 3 })).toEqual([]);
+      expect(messages(10, { multipleOf: 3 })).toEqual(['$ must be a multiple of 3']);
+      expect(messages(0.35, { multipleOf: 0.1 })).toEqual(['$ must be a multiple of 0.1']);
+    });
+
+    it('tolerates floating point error in multipleOf', () => {
+      expect(messages(0.3, { multipleOf: 0.1 })).toEqual([]);
+      expect(messages(0.7, { multipleOf: 0.1 })).toEqual([]);
+      expect(messages(19.99, { multipleOf: 0.01 })).toEqual([]);
+      expect(messages(123456.78, { multipleOf: 0.01 })).toEqual([]);
+    });
+  });
+
+  it('checks array size, uniqueness and items', () => {
+    const schema: JSONSchema = { type: 'array', minItems: 1, maxItems: 3, uniqueItems: true, items: { type: 'integer' } };
+    expect(messages([1, 2], schema)).toEqual([]);
+    expect(messages([], schema)).toEqual(['$ must have at least 1 items']);
+    expect(messages([1, 2, 3, 4], schema)).toEqual(['$ must have at most 3 items']);
+    expect(messages([{ a: 1 }, { a: 1 }], { uniqueItems: true })).toEqual(['$ items must be unique']);
+    expect(messages([1, 'x'], schema)).toEqual(['$[1] expected integer, got string']);
+  });
+
+  describe('objects', () => {
+    const schema: JSONSchema = {
+      type: 'object',
+      properties: { name: { type: 'string' }, 'first-name': { type: 'string' } },
+      required: ['name']
+    };
+
+    it('reports missing required properties and invalid ones with their path', () => {
+      expect(messages({ name: 'a' }, schema)).toEqual([]);
+      expect(messages({}, schema)).toEqual(['$.name is required']);
+      expect(messages({ name: 'a', 'first-name': 1 }, schema)).toEqual(['$["first-name"] expected string, got number']);
+    });
+
+    it('applies additionalProperties', () => {
+      expect(messages({ name: 'a', extra: 1 }, schema)).toEqual([]);
+      expect(messages({ name: 'a', extra: 1 }, { ...schema, additionalProperties: false }))
+        .toEqual(['$.extra is not an allowed property']);
+      expect(messages({ name: 'a', extra: 1 }, { ...schema, additionalProperties: { type: 'string' } }))
+        .toEqual(['$.extra expected string, got number']);
+    });
+
+    it('validates nested values', () => {
+      const nested: JSONSchema = {
+        type: 'object',
+        properties: { tags: { type: 'array', items: { type: 'object', properties: { id: { type: 'integer' } } } } }
+      };
+      expect(messages({ tags: [{ id: 1 }, { id: 'x' }] }, nested)).toEqual(['$.tags[1].id expected integer, got string']);
+    });
+  });
+
+  describe('combinators', () => {
+    it('reports every allOf issue', () => {
+      expect(messages(3, { allOf: [{ minimum: 5 }, { multipleOf: 2 }] }))
+        .toEqual(['$ must be >= 5', '$ must be a multiple of 2']);
+    });
+
+    it('requires at least one anyOf match', () => {
+      const schema: JSONSchema = { anyOf: [{ type: 'string' }, { type: 'integer' }] };
+      expect(messages(1, schema)).toEqual([]);
+      expect(messages(1.5, schema)).toEqual(['$ must match at least one schema in anyOf']);
+    });
+
+    it('requires exactly one oneOf match', () => {
+      const schema: JSONSchema = { oneOf: [{ type: 'number' }, { type: 'integer' }] };
+      expect(messages(1.5, schema)).toEqual([]);
+      expect(messages(1, schema)).toEqual(['$ must match exactly one schema in oneOf (matched 2)']);
+      expect(messages('a', schema)).toEqual(['$ must match exactly one schema in oneOf (matched 0)']);
+    });
+
+    it('rejects values matching not', () => {
+      expect(messages('a', { not: { type: 'number' } })).toEqual([]);
+      expect(messages(1, { not: { type: 'number' } })).toEqual(['$ must not match the schema in not']);
+    });
+  });
+});
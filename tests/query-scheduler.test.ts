@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { getEventListeners } from 'node:events';
+import { QueryScheduler } from '../src/scheduler/query-scheduler.js';
+import { AbortError } from '../src/errors.js';
+import { claude } from '../src/fluent.js';
+import { InMemoryTransport } from '../src/transport/in-memory.js';
+
+// A task that runs until the test finishes it
+function deferred() {
+  let finish!: () => void;
+  const done = new Promise<void>(resolve => {
+    finish = resolve;
+  });
+  return { done, finish };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('QueryScheduler', () => {
+  it('runs at most maxConcurrency jobs and starts queued ones by priority', async () => {
+    const scheduler = new QueryScheduler({ maxConcurrency: 1 });
+    const started: string[] = [];
+    const blocker = deferred();
+
+    const first = scheduler.submit(async () => {
+      started.push('first');
+      await blocker.done;
+    });
+    const jobs = (['low', 'normal', 'high', 'high'] as const).map((priority, index) =>
+      scheduler.submit(async () => {
+        started.push(`${priority}-${index}`);
+      }, { priority })
+    );
+
+    await tick();
+    expect(started).toEqual(['first']);
+    expect(scheduler.getMetrics()).toMatchObject({ running: 1, queued: 4, queuedByPriority: { high: 2, normal: 1, low: 1 } });
+
+    blocker.finish();
+    await Promise.all([first.result, ...jobs.map(job => job.result)]);
+    expect(started).toEqual(['first', 'high-2', 'high-3', 'normal-1', 'low-0']);
+    expect(jobs.map(job => job.status)).toEqual(['completed', 'completed', 'completed', 'completed']);
+  });
+
+  it('limits keys without blocking jobs for other keys', async () => {
+    const scheduler = new QueryScheduler({ maxConcurrency: 4, keyLimits: { tenant: 1 } });
+    const blocker = deferred();
+    const started: string[] = [];
+
+    const a = scheduler.submit(async () => {
+      started.push('tenant-1');
+      await blocker.done;
+    }, { key: 'tenant' });
+    const b = scheduler.submit(async () => {
+      started.push('tenant-2');
+    }, { key: 'tenant' });
+    const c = scheduler.submit(async () => {
+      started.push('other');
+    }, { key: 'other' });
+
+    await c.result;
+    expect(started).toEqual(['tenant-1', 'other']);
+    expect(b.status).toBe('queued');
+
+    blocker.finish();
+    await Promise.all([a.result, b.result]);
+    expect(started).toEqual(['tenant-1', 'other', 'tenant-2']);
+  });
+
+  it('cancels queued jobs without running them', async () => {
+    const scheduler = new QueryScheduler({ maxConcurrency: 1 });
+    const blocker = deferred();
+    let ran = false;
+
+    const first = scheduler.submit(() => blocker.done);
+    const queued = scheduler.submit(async () => {
+      ran = true;
+    });
+    queued.cancel('not needed');
+
+    await expect(queued.result).rejects.toBeInstanceOf(AbortError);
+    expect(queued.status).toBe('cancelled');
+
+    blocker.finish();
+    await first.result;
+    expect(ran).toBe(false);
+    expect(scheduler.getMetrics().cancelled).toBe(1);
+  });
+
+  it('aborts running jobs through their signal', async () => {
+    const scheduler = new QueryScheduler();
+    const controller = new AbortController();
+
+    const job = scheduler.submit(signal => new Promise((_resolve, reject) => {
+      signal.addEventListener('abort', () => reject(new Error(`stopped: ${String(signal.reason)}`)));
+    }), { signal: controller.signal });
+
+    await tick();
+    expect(job.status).toBe('running');
+    controller.abort('user left');
+
+    await expect(job.result).rejects.toThrow('stopped: user left');
+    expect(job.status).toBe('cancelled');
+  });
+
+  it('removes its abort listener once a job settles', async () => {
+    const scheduler = new QueryScheduler({ maxConcurrency: 1 });
+    const controller = new AbortController();
+
+    const jobs = [1, 2, 3].map(value => scheduler.submit(async () => value, { signal: controller.signal }));
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(3);
+
+    expect(await Promise.all(jobs.map(job => job.result))).toEqual([1, 2, 3]);
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+  });
+
+  it('rejects jobs whose signal is already aborted', async () => {
+    const scheduler = new QueryScheduler();
+    const controller = new AbortController();
+    controller.abort();
+
+    const job = scheduler.submit(async () => 'ran');
+    const aborted = scheduler.submit(async () => 'never', { signal: controller.signal });
+
+    await expect(aborted.result).rejects.toBeInstanceOf(AbortError);
+    expect(await job.result).toBe('ran');
+  });
+
+  it('runs builder queries under its limits', async () => {
+    const scheduler = new QueryScheduler({ maxConcurrency: 1 });
+    const builder = claude()
+      .withScheduler(scheduler, { key: 'tenant' })
+      .withTransport(() => InMemoryTransport.fromText('ok'));
+
+    const texts = await Promise.all([builder.query('a').asText(), builder.query('b').asText()]);
+    expect(texts).toEqual(['ok', 'ok']);
+    expect(scheduler.getMetrics()).toMatchObject({ running: 0, queued: 0, started: 2 });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { createTokenStreamFactory } from '../src/streaming/factory.js';
+import { StreamAbortedError, ValidationError } from '../src/errors.js';
+import type { TokenChunk } from '../src/types/streaming.js';
+
+// Recorded without gaps so playback doesn't wait
+function recording(...tokens: string[]): TokenChunk[] {
+  return tokens.map((token, position) => ({ token, timestamp: 0, metadata: { kind: 'text', position } }));
+}
+
+const factory = createTokenStreamFactory();
+
+async function play(tokens: AsyncGenerator<TokenChunk>): Promise<string[]> {
+  const played: string[] = [];
+  for await (const chunk of tokens) played.push(chunk.token);
+  return played;
+}
+
+describe('replayed token streams', () => {
+  it('stops before the token that matches an abort pattern', async () => {
+    const replay = factory.fromRecording(recording('Your ', 'api', '_key ', 'is ', 'secret'), {
+      abortPatterns: [/api_key/]
+    });
+    const played: string[] = [];
+
+    const error = await (async () => {
+      for await (const chunk of replay.tokens()) played.push(chunk.token);
+    })().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(StreamAbortedError);
+    expect((error as StreamAbortedError).reason).toBe('matched abort pattern /api_key/');
+    expect(played).toEqual(['Your ', 'api']);
+    expect(replay.getMetrics().state).toBe('aborted');
+  });
+
+  it('holds back the token that matches a pause pattern until resumed', async () => {
+    const replay = factory.fromRecording(recording('Run ', 'DROP ', 'TABLE ', 'users'), {
+      pausePatterns: [/DROP TABLE/]
+    });
+    const reasons: Array<string | undefined> = [];
+    let heldAt: string[] = [];
+    replay.on('pause', (_state, reason) => {
+      reasons.push(reason);
+      heldAt = replay.getSnapshot().map(chunk => chunk.token);
+      setTimeout(() => replay.getController().resume(), 10);
+    });
+
+    expect(await play(replay.tokens())).toEqual(['Run ', 'DROP ', 'TABLE ', 'users']);
+    expect(reasons).toEqual(['matched pause pattern /DROP TABLE/']);
+    expect(heldAt).toEqual(['Run ', 'DROP ']);
+    expect(replay.getMetrics().pauseCount).toBe(1);
+  });
+
+  it('ignores thinking tokens when matching patterns', async () => {
+    const tokens = recording('thinking about ', 'secrets', ' done');
+    tokens[1]!.metadata!.kind = 'thinking';
+    const replay = factory.fromRecording(tokens, { abortPatterns: [/secrets/] });
+
+    expect(await play(replay.tokens())).toEqual(['thinking about ', 'secrets', ' done']);
+  });
+
+  it('keeps the latest bufferSize tokens before the play position in the snapshot', async () => {
+    const replay = factory.fromRecording(recording('a', 'b', 'c', 'd', 'e'), { bufferSize: 2 });
+    const tokens = replay.tokens();
+
+    await tokens.next();
+    expect(replay.getSnapshot().map(chunk => chunk.token)).toEqual(['a']);
+
+    await tokens.next();
+    await tokens.next();
+    expect(replay.getSnapshot().map(chunk => chunk.token)).toEqual(['b', 'c']);
+
+    replay.getController().rewind(1);
+    expect(replay.getSnapshot().map(chunk => chunk.token)).toEqual(['a']);
+    await tokens.return(undefined);
+  });
+
+  it('rejects options it cannot honour', () => {
+    expect(() => factory.fromRecording([], { bufferSize: -1 })).toThrow(ValidationError);
+    expect(() => factory.fromRecording([], { includeTokenProbabilities: true })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { ResponseParser } from '../src/parser.js';
+import type { Message } from '../src/types.js';
+
+// Hands out one message for each call to next()
+function controlled(messages: Message[]) {
+  let allowed = 0;
+  let reads = 0;
+  let wake: (() => void) | undefined;
+
+  async function* generator(): AsyncGenerator<Message> {
+    for (const message of messages) {
+      while (reads >= allowed) {
+        await new Promise<void>(resolve => {
+          wake = resolve;
+        });
+      }
+      reads++;
+      yield message;
+    }
+  }
+
+  const next = () => {
+    allowed++;
+    wake?.();
+  };
+  return { generator: generator(), next, reads: () => reads };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const messages: Message[] = [
+  { type: 'assistant', content: [{ type: 'text', text: 'Reading' }] },
+  { type: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: 'a.ts' } }] },
+  { type: 'assistant', content: [{ type: 'text', text: 'Done' }] },
+  { type: 'result', subtype: 'success', content: 'Done' }
+];
+
+async function collect<T>(iterator: AsyncGenerator<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const item of iterator) collected.push(item);
+  return collected;
+}
+
+describe('ResponseParser streams', () => {
+  it('delivers messages to live consumers as they arrive', async () => {
+    const source = controlled(messages);
+    const parser = new ResponseParser(source.generator);
+    const texts: string[] = [];
+
+    const ui = (async () => {
+      for await (const text of parser.textStream()) texts.push(text);
+    })();
+
+    source.next();
+    await tick();
+    expect(texts).toEqual(['Reading']);
+
+    source.next();
+    source.next();
+    await tick();
+    expect(texts).toEqual(['Reading', 'Done']);
+
+    source.next();
+    await ui;
+  });
+
+  it('reads the generator once for every consumer and accessor', async () => {
+    const source = controlled(messages);
+    const parser = new ResponseParser(source.generator);
+
+    const streams = Promise.all([
+      collect(parser.messages()),
+      collect(parser.textStream()),
+      collect(parser.toolCalls()),
+      parser.asText()
+    ]);
+    for (let i = 0; i < messages.length; i++) {
+      source.next();
+      await tick();
+    }
+
+    const [all, texts, tools, text] = await streams;
+    expect(all).toEqual(messages);
+    expect(texts).toEqual(['Reading', 'Done']);
+    expect(tools.map(tool => tool.name)).toEqual(['Read']);
+    expect(text).toBe('Reading\nDone');
+    expect(source.reads()).toBe(messages.length);
+  });
+
+  it('replays the history to late subscribers', async () => {
+    const source = controlled(messages);
+    const parser = new ResponseParser(source.generator);
+    const early = collect(parser.messages());
+
+    source.next();
+    source.next();
+    await tick();
+
+    const late = collect(parser.messages());
+    source.next();
+    source.next();
+
+    expect(await late).toEqual(messages);
+    expect(await early).toEqual(messages);
+    expect(await collect(parser.messages())).toEqual(messages);
+  });
+
+  it('keeps reading for others when one consumer breaks out', async () => {
+    const parser = new ResponseParser((async function* () {
+      yield* messages;
+    })());
+
+    for await (const message of parser.messages()) {
+      expect(message.type).toBe('assistant');
+      break;
+    }
+
+    expect(await parser.asResult()).toBe('Done');
+    expect(await collect(parser.textStream())).toEqual(['Reading', 'Done']);
+  });
+
+  it('runs handlers once per message', async () => {
+    const seen: string[] = [];
+    const parser = new ResponseParser((async function* () {
+      yield* messages;
+    })(), [message => seen.push(message.type)]);
+
+    await Promise.all([collect(parser.messages()), collect(parser.messages()), parser.asArray()]);
+    expect(seen).toEqual(['assistant', 'assistant', 'assistant', 'result']);
+  });
+
+  it('surfaces a failed query to every consumer after the messages received', async () => {
+    const parser = new ResponseParser((async function* () {
+      yield messages[0]!;
+      throw new Error('CLI exited');
+    })());
+
+    const received: Message[] = [];
+    await expect((async () => {
+      for await (const message of parser.messages()) received.push(message);
+    })()).rejects.toThrow('CLI exited');
+    expect(received).toEqual([messages[0]]);
+
+    await expect(parser.asText()).rejects.toThrow('CLI exited');
+    await expect(collect(parser.toolCalls())).rejects.toThrow('CLI exited');
+  });
+});
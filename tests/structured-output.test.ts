@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { ResponseParser, type ResumeQuery } from '../src/parser.js';
+import { StructuredOutputError } from '../src/errors.js';
+import type { JSONSchema, Message } from '../src/types.js';
+
+const SESSION_ID = 'session-1';
+
+const schema: JSONSchema = {
+  type: 'object',
+  properties: { title: { type: 'string' }, priority: { type: 'integer', minimum: 1, maximum: 5 } },
+  required: ['title', 'priority']
+};
+
+async function* reply(text: string, sessionId?: string): AsyncGenerator<Message> {
+  yield { type: 'assistant', content: [{ type: 'text', text }], session_id: sessionId };
+  yield { type: 'result', subtype: 'success', content: '', session_id: sessionId };
+}
+
+// Answers each repair prompt with the next reply, recording the prompts
+function resumeWith(...replies: string[]): ResumeQuery & { prompts: string[]; sessions: string[] } {
+  const prompts: string[] = [];
+  const sessions: string[] = [];
+  const resume = (prompt: string, sessionId: string) => {
+    prompts.push(prompt);
+    sessions.push(sessionId);
+    return reply(replies.shift() ?? 'no more replies', sessionId);
+  };
+  return Object.assign(resume, { prompts, sessions });
+}
+
+describe('ResponseParser.asStructured', () => {
+  it('returns a valid response without repairs', async () => {
+    const resume = resumeWith();
+    const parser = new ResponseParser(reply('```json\n{"title": "Fix login", "priority": 2}\n```', SESSION_ID), [], undefined, resume);
+
+    await expect(parser.asStructured(schema)).resolves.toEqual({ title: 'Fix login', priority: 2 });
+    expect(resume.prompts).toEqual([]);
+  });
+
+  it('asks for a repair in the same session and returns the corrected value', async () => {
+    const resume = resumeWith('{"title": "Fix login", "priority": 2}');
+    const parser = new ResponseParser(reply('{"title": "Fix login", "priority": 9}', SESSION_ID), [], undefined, resume);
+
+    await expect(parser.asStructured(schema)).resolves.toEqual({ title: 'Fix login', priority: 2 });
+    expect(resume.sessions).toEqual([SESSION_ID]);
+    expect(resume.prompts[0]).toContain('- $.priority must be <= 5');
+    expect(resume.prompts[0]).toContain('"required": [');
+  });
+
+  it('repairs responses without any JSON', async () => {
+    const resume = resumeWith('{"title": "Fix login", "priority": 1}');
+    const parser = new ResponseParser(reply('Sure, here is the ticket.', SESSION_ID), [], undefined, resume);
+
+    await expect(parser.asStructured(schema)).resolves.toEqual({ title: 'Fix login', priority: 1 });
+    expect(resume.prompts[0]).toContain('- $ response does not contain valid JSON');
+  });
+
+  it('gives up after maxRepairs with the last response and its issues', async () => {
+    const resume = resumeWith('{"title": "Fix login"}', '{"priority": 2}');
+    const parser = new ResponseParser(reply('{}', SESSION_ID), [], undefined, resume);
+
+    const error = await parser.asStructured(schema, { maxRepairs: 2 }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error).toMatchObject({
+      rawText: '{"priority": 2}',
+      issues: [{ path: '$.title', message: 'is required' }],
+      attempts: 3
+    });
+    expect(resume.prompts).toHaveLength(2);
+  });
+
+  it('does not repair when maxRepairs is 0', async () => {
+    const resume = resumeWith('{"title": "Fix login", "priority": 2}');
+    const parser = new ResponseParser(reply('{}', SESSION_ID), [], undefined, resume);
+
+    await expect(parser.asStructured(schema, { maxRepairs: 0 })).rejects.toMatchObject({ attempts: 1 });
+    expect(resume.prompts).toEqual([]);
+  });
+
+  it('cannot repair without a session to resume', async () => {
+    const resume = resumeWith('{"title": "Fix login", "priority": 2}');
+    const parser = new ResponseParser(reply('{}'), [], undefined, resume);
+
+    await expect(parser.asStructured(schema)).rejects.toBeInstanceOf(StructuredOutputError);
+    expect(resume.prompts).toEqual([]);
+  });
+
+  it('repairs values rejected by a type guard without sending a schema', async () => {
+    const isTags = (value: unknown): value is string[] =>
+      Array.isArray(value) && value.every(item => typeof item === 'string');
+    const resume = resumeWith('["bug", "auth"]');
+    const parser = new ResponseParser(reply('[1, 2]', SESSION_ID), [], undefined, resume);
+
+    await expect(parser.asStructured(isTags)).resolves.toEqual(['bug', 'auth']);
+    expect(resume.prompts[0]).toContain('- $ value was rejected by the type guard');
+    expect(resume.prompts[0]).not.toContain('JSON Schema');
+  });
+});
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { claude } from '../src/fluent.js';
+import { TimeoutError } from '../src/errors.js';
+
+const STALLING_CLI = fileURLToPath(new URL('./fixtures/stalling-cli.mjs', import.meta.url));
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(join(tmpdir(), 'claude-sdk-timeouts-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+function stallingClaude(mode: 'silent' | 'chatty', pidFile = join(dir, 'cli.pid')) {
+  return claude()
+    .withCLIPath(STALLING_CLI)
+    .withEnv({ STALL_MODE: mode, STALL_PID_FILE: pidFile });
+}
+
+async function isRunning(pidFile: string): Promise<boolean> {
+  const pid = Number(await fs.readFile(pidFile, 'utf8'));
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe('subprocess timeouts', () => {
+  it('fires the idle timeout when the CLI stops writing', async () => {
+    const error = await stallingClaude('silent')
+      .withIdleTimeout(300)
+      .query('Hang')
+      .asText()
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toMatchObject({ timeout: 300, timeoutType: 'idle' });
+    expect((error as TimeoutError).message).toContain('idle timeout');
+    expect((error as TimeoutError).partialMessages.map(message => message.type)).toEqual(['system', 'assistant']);
+  });
+
+  it('fires the overall timeout while the CLI keeps writing', async () => {
+    const start = Date.now();
+    const error = await stallingClaude('chatty')
+      .withTimeout(500)
+      .withIdleTimeout(300)
+      .query('Keep going')
+      .asText()
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toMatchObject({ timeout: 500, timeoutType: 'overall' });
+    expect((error as TimeoutError).partialMessages.length).toBeGreaterThan(2);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(500);
+  });
+
+  it('stops the CLI once a timeout fires', async () => {
+    const pidFile = join(dir, 'stopped.pid');
+    await expect(stallingClaude('silent', pidFile).withTimeout(300).query('Hang').asText())
+      .rejects.toBeInstanceOf(TimeoutError);
+
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(await isRunning(pidFile)).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { ApproximateTokenizer, estimateTokens, getTokenizer } from '../src/streaming/tokenizer.js';
+
+// A 49-letter word: one token for its first 7 letters, then one per 4
+const LONG_WORD = 'a'.repeat(49);
+const MODELS = ['claude-sonnet-4-20250514', 'opus', 'claude-3-7-sonnet-20250219', 'claude-3-5-haiku-latest', 'claude-3-opus-20240229'];
+
+describe('getTokenizer', () => {
+  it('returns a tokenizer for the model', () => {
+    expect(getTokenizer('claude-3-5-haiku-latest').model).toBe('claude-3-5-haiku-latest');
+    expect(getTokenizer().model).toBe('default');
+  });
+
+  it('caches tokenizers per model', () => {
+    expect(getTokenizer('sonnet')).toBe(getTokenizer('sonnet'));
+  });
+});
+
+describe('ApproximateTokenizer', () => {
+  it.each(MODELS)('gives the same estimates for %s', (model) => {
+    const tokenizer = new ApproximateTokenizer(model);
+    expect(tokenizer.estimateTokens('Hello, world!')).toBe(4);
+    expect(tokenizer.estimateTokens('Call 555-1234 now')).toBe(6);
+    expect(tokenizer.estimateTokens(LONG_WORD)).toBe(12);
+  });
+
+  it('splits long words into one token per four letters after the first seven', () => {
+    const tokenizer = new ApproximateTokenizer();
+    expect(tokenizer.estimateTokens('internationalization')).toBe(1 + 4);
+    expect(tokenizer.split(' extraordinarily')).toEqual([' extr', 'aordi', 'narily']);
+  });
+
+  it('counts each CJK character as a token', () => {
+    expect(getTokenizer('sonnet').estimateTokens('你好世界')).toBe(4);
+  });
+
+  it('splits text into pieces that join back into the original', () => {
+    const text = `Tokenizers split ${LONG_WORD} and 你好 into pieces.\n  Done!`;
+    const tokenizer = getTokenizer('claude-3-opus');
+    expect(tokenizer.split(text).join('')).toBe(text);
+    expect(tokenizer.tokenize(text).map(chunk => chunk.token).join('')).toBe(text);
+  });
+});
+
+describe('estimateTokens', () => {
+  it('adds the system prompt and context to the prompt', () => {
+    expect(estimateTokens('Hello, world!', { systemPrompt: 'Be brief.', context: ['Hello, world!'] })).toBe(4 + 3 + 4);
+  });
+
+  it('counts the same for every model', () => {
+    for (const model of MODELS) {
+      expect(estimateTokens(LONG_WORD, { model })).toBe(12);
+    }
+  });
+
+  it('estimates images and documents in block prompts', () => {
+    const pdf = Buffer.from('%PDF-1.7\n1 0 obj << /Type /Page >>\n2 0 obj << /Type /Page >>\n<< /Type /Pages >>');
+    const tokens = estimateTokens([
+      { type: 'text', text: 'Hello, world!' },
+      { type: 'image', data: Buffer.alloc(8), mediaType: 'image/png' },
+      { type: 'document', data: pdf },
+      { type: 'document', data: 'Hello, world!', mediaType: 'text/plain' },
+      { type: 'document', data: pdf.toString('base64'), mediaType: 'application/pdf' }
+    ]);
+    expect(tokens).toBe(4 + 1600 + 2 * 2000 + 4 + 2 * 2000);
+  });
+});